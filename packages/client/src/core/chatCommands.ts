@@ -0,0 +1,20 @@
+import { HabboAvatarSprite } from '@polaris/renderer';
+
+export type ChatCommand =
+  | { type: 'dance'; style: number };
+
+export const parseChatCommand = (text: string): ChatCommand | null => {
+  const [command, argument] = text.trim().toLowerCase().split(/\s+/);
+
+  switch (command) {
+    case '/dance': {
+      if (argument === undefined) return { type: 'dance', style: 1 };
+      if (argument === 'stop') return { type: 'dance', style: 0 };
+
+      const style = Number(argument);
+      return style === 0 || HabboAvatarSprite.DANCE_STYLES.includes(style) ? { type: 'dance', style } : null;
+    }
+    default:
+      return null;
+  }
+};
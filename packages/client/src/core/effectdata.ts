@@ -0,0 +1,3 @@
+import type { AvatarEffectType } from '@polaris/renderer';
+
+export const AVATAR_EFFECTS: AvatarEffectType[] = [];
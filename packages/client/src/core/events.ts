@@ -0,0 +1,56 @@
+import type { RoomUnitType } from '@polaris/renderer';
+
+export interface FloorplanUpdateEvent {
+  pattern: string[];
+  wallHeight?: number;
+  wallThickness?: number;
+  floorThickness?: number;
+}
+
+export interface FurnitureActionEvent {
+  furnitureId: number;
+  action: string;
+}
+
+export interface UnitChatEvent {
+  unitType: RoomUnitType;
+  unitId: number;
+  message: string;
+  x: number;
+  y: number;
+}
+
+export interface GameEvents {
+  'avatar-dance': number;
+  'avatar-figure-changed': string;
+  'floorplan-updated': FloorplanUpdateEvent;
+  'furniture-action': FurnitureActionEvent;
+  'furniture-redeem-confirmed': number;
+  'unit-chat': UnitChatEvent;
+}
+
+type GameEventListener<K extends keyof GameEvents> = (payload: GameEvents[K]) => void;
+
+class GameEventBus {
+  private listeners: Map<keyof GameEvents, Set<GameEventListener<any>>> = new Map();
+
+  public on<K extends keyof GameEvents>(event: K, listener: GameEventListener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+
+    this.listeners.get(event)!.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof GameEvents>(event: K, listener: GameEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  public emit<K extends keyof GameEvents>(event: K, payload: GameEvents[K]): void {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+}
+
+export const gameEvents = new GameEventBus();
@@ -0,0 +1,52 @@
+import type { FigureSet, FigureSetPart } from '@polaris/renderer';
+
+export const DEFAULT_FIGURE = 'hd-180-1.hr-2073-61.ch-2050-66';
+
+export const FIGURE_PALETTES_URL = '/assets/habbo/figuredata/palettes.json';
+
+const SKIN_PALETTE = 1;
+const HAIR_PALETTE = 2;
+const CLOTHING_PALETTE = 3;
+
+const bodyParts = (headId: number): FigureSetPart[] => [
+  { id: 1, type: 'bd', colorable: true, colorIndex: 1 },
+  { id: 1, type: 'lh', colorable: true, colorIndex: 1 },
+  { id: 1, type: 'rh', colorable: true, colorIndex: 1 },
+  { id: headId, type: 'hd', colorable: true, colorIndex: 1 }
+];
+
+const hairParts = (id: number): FigureSetPart[] => [
+  { id, type: 'hr', colorable: true, colorIndex: 1 },
+  { id, type: 'hrb', colorable: false }
+];
+
+export const FIGURE_SETS: FigureSet[] = [
+  { id: 180, type: 'hd', library: 'hh_human_body', gender: 'M', paletteId: SKIN_PALETTE, parts: bodyParts(1) },
+  { id: 185, type: 'hd', library: 'hh_human_body', gender: 'M', paletteId: SKIN_PALETTE, parts: bodyParts(2) },
+  { id: 190, type: 'hd', library: 'hh_human_body', gender: 'U', paletteId: SKIN_PALETTE, parts: bodyParts(3) },
+  { id: 600, type: 'hd', library: 'hh_human_body', gender: 'F', paletteId: SKIN_PALETTE, parts: bodyParts(4) },
+
+  { id: 2068, type: 'hr', library: 'Hair_U_Multi_Colour', gender: 'U', paletteId: HAIR_PALETTE, parts: hairParts(2068) },
+  { id: 2069, type: 'hr', library: 'Hair_U_Multi_Colour', gender: 'U', paletteId: HAIR_PALETTE, parts: hairParts(2069) },
+  { id: 2071, type: 'hr', library: 'Hair_U_Messy', gender: 'U', paletteId: HAIR_PALETTE, parts: hairParts(2071) },
+  { id: 2072, type: 'hr', library: 'Hair_U_Messy', gender: 'U', paletteId: HAIR_PALETTE, parts: hairParts(2072) },
+  { id: 2073, type: 'hr', library: 'Hair_F_Bob', gender: 'F', paletteId: HAIR_PALETTE, parts: hairParts(2073) },
+  { id: 2096, type: 'hr', library: 'Hair_M_yo', gender: 'M', paletteId: HAIR_PALETTE, parts: hairParts(2096) },
+
+  { id: 2143, type: 'ha', library: 'Hat_U_sombrero', gender: 'U', parts: [{ id: 2143, type: 'ha' }] },
+  { id: 2144, type: 'ha', library: 'Hat_U_sombrero', gender: 'U', parts: [{ id: 2144, type: 'ha' }] },
+  { id: 2145, type: 'ha', library: 'Hat_U_sombrero', gender: 'U', parts: [{ id: 2145, type: 'ha' }] },
+
+  {
+    id: 2050,
+    type: 'ch',
+    library: 'Shirt_M_Tshirt_Plain',
+    gender: 'M',
+    paletteId: CLOTHING_PALETTE,
+    parts: [
+      { id: 2050, type: 'ch', colorable: true, colorIndex: 1 },
+      { id: 2050, type: 'ls', colorable: true, colorIndex: 1 },
+      { id: 2050, type: 'rs', colorable: true, colorIndex: 1 }
+    ]
+  }
+];
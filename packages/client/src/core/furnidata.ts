@@ -0,0 +1,9 @@
+import type { FurnitureType } from '@polaris/renderer';
+
+export const FURNITURE_TYPES: FurnitureType[] = [
+  { id: 1, className: 'SF_chair_blue', name: 'Blue Chair', canSitOn: true, canStack: false },
+  { id: 2, className: 'SF_chair_red', name: 'Red Chair', canSitOn: true, canStack: false },
+  { id: 3, className: 'SF_chair_green', name: 'Green Chair', canSitOn: true, canStack: false },
+  { id: 4, className: 'CF_10_coin_gold', name: 'Gold Coin', description: 'Worth 10 credits' },
+  { id: 5, className: 'CFC_100_coin_gold', name: 'Gold Bar', description: 'Worth 100 credits' }
+];
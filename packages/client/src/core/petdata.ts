@@ -0,0 +1,3 @@
+import type { PetType } from '@polaris/renderer';
+
+export const PET_TYPES: PetType[] = [];
@@ -0,0 +1 @@
+export const DEFAULT_ROOM_URL = '/assets/rooms/default.json';
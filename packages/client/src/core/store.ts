@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { DEFAULT_FIGURE } from './figuredata';
 
 export interface AvatarPosition {
   x: number;
@@ -14,6 +15,27 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+export interface PendingRedeem {
+  furnitureId: number;
+  name: string;
+  credits: number;
+}
+
+export interface RoomObjectAction {
+  id: string;
+  label: string;
+}
+
+export interface SelectedRoomObject {
+  id: number;
+  category: 'furniture';
+  name: string;
+  description: string;
+  icon: string | null;
+  owner: string | null;
+  actions: RoomObjectAction[];
+}
+
 interface GameStore {
   roomId: string;
   roomName: string;
@@ -27,6 +49,14 @@ interface GameStore {
   showReactDebugPanel: boolean;
   showPhaserDebugPanel: boolean;
 
+  walletBalance: number;
+  pendingRedeem: PendingRedeem | null;
+
+  selectedObject: SelectedRoomObject | null;
+
+  userFigure: string;
+  showAvatarEditor: boolean;
+
   setRoomId: (id: string) => void;
   setRoomName: (name: string) => void;
 
@@ -40,6 +70,15 @@ interface GameStore {
   toggleReactDebugPanel: () => void;
   togglePhaserDebugPanel: () => void;
 
+  requestRedeem: (redeem: PendingRedeem) => void;
+  cancelRedeem: () => void;
+  completeRedeem: (furnitureId: number) => void;
+
+  setSelectedObject: (object: SelectedRoomObject | null) => void;
+
+  setUserFigure: (figure: string) => void;
+  toggleAvatarEditor: () => void;
+
   navigateToRoom: (roomId: string) => void;
 }
 
@@ -56,6 +95,14 @@ export const useGameStore = create<GameStore>((set) => ({
   showReactDebugPanel: true,
   showPhaserDebugPanel: true,
 
+  walletBalance: 0,
+  pendingRedeem: null,
+
+  selectedObject: null,
+
+  userFigure: DEFAULT_FIGURE,
+  showAvatarEditor: false,
+
   setRoomId: (id) => set({ roomId: id }),
   setRoomName: (name) => set({ roomName: name }),
 
@@ -75,6 +122,24 @@ export const useGameStore = create<GameStore>((set) => ({
     showPhaserDebugPanel: !state.showPhaserDebugPanel
   })),
 
+  requestRedeem: (redeem) => set({ pendingRedeem: redeem }),
+  cancelRedeem: () => set({ pendingRedeem: null }),
+  completeRedeem: (furnitureId) => set((state) => {
+    if (state.pendingRedeem?.furnitureId !== furnitureId) return state;
+
+    return {
+      walletBalance: state.walletBalance + state.pendingRedeem.credits,
+      pendingRedeem: null
+    };
+  }),
+
+  setSelectedObject: (object) => set({ selectedObject: object }),
+
+  setUserFigure: (figure) => set({ userFigure: figure }),
+  toggleAvatarEditor: () => set((state) => ({
+    showAvatarEditor: !state.showAvatarEditor
+  })),
+
   navigateToRoom: (roomId) => {
     set({ roomId, chatMessages: [] });
   }
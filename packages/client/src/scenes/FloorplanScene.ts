@@ -66,6 +66,7 @@ export class FloorplanScene extends Phaser.Scene {
       doorTile: undefined,
       tiles,
       furniture: [],
+      wallItems: [],
       avatars: []
     };
   }
@@ -1,5 +1,10 @@
 import Phaser from 'phaser';
-import { AssetLoader } from '@polaris/renderer';
+import { AssetLoader, AvatarEffectRegistry, FigureDataRegistry, FigurePaletteLoader, FurnitureTypeRegistry, PetTypeRegistry, RoomManager, type RoomData } from '@polaris/renderer';
+import { FURNITURE_TYPES } from '@core/furnidata';
+import { FIGURE_PALETTES_URL, FIGURE_SETS } from '@core/figuredata';
+import { AVATAR_EFFECTS } from '@core/effectdata';
+import { PET_TYPES } from '@core/petdata';
+import { DEFAULT_ROOM_URL } from '@core/roomdata';
 
 export class LoaderScene extends Phaser.Scene {
   private loadingText!: Phaser.GameObjects.Text;
@@ -39,16 +44,25 @@ export class LoaderScene extends Phaser.Scene {
   private async simulateLoading(): Promise<void> {
     const useBundle = true;
 
+    FurnitureTypeRegistry.getInstance().registerAll(FURNITURE_TYPES);
+    FigureDataRegistry.getInstance().registerAll(FIGURE_SETS);
+    AvatarEffectRegistry.getInstance().registerAll(AVATAR_EFFECTS);
+    PetTypeRegistry.getInstance().registerAll(PET_TYPES);
+
+    const roomManager = new RoomManager();
+
     const loadPromises = [
       AssetLoader.loadFurniture(this, 'SF_chair_blue', useBundle),
       AssetLoader.loadFurniture(this, 'SF_chair_red', useBundle),
       AssetLoader.loadFurniture(this, 'CF_10_coin_gold', useBundle),
-      AssetLoader.loadFigure(this, 'hh_human_body', useBundle)
+      AssetLoader.loadFigure(this, 'hh_human_body', useBundle),
+      FigurePaletteLoader.load(FIGURE_PALETTES_URL),
+      roomManager.loadFromJSON(DEFAULT_ROOM_URL)
     ];
 
     try {
       await Promise.all(loadPromises);
-      this.onLoadComplete();
+      this.onLoadComplete(roomManager.getRoomData());
     } catch (error) {
       console.error('[LoaderScene] Failed to load assets:', error);
     }
@@ -68,13 +82,13 @@ export class LoaderScene extends Phaser.Scene {
   private onFileProgress(_file: Phaser.Loader.File): void {
   }
 
-  private onLoadComplete(): void {
+  private onLoadComplete(roomData: RoomData): void {
     if (this.loadingText) this.loadingText.destroy();
     if (this.progressBar) this.progressBar.destroy();
     if (this.progressBox) this.progressBox.destroy();
 
     this.time.delayedCall(500, () => {
-      this.scene.start('RoomScene');
+      this.scene.start('RoomScene', { roomData });
     });
   }
 }
\ No newline at end of file
@@ -8,28 +8,56 @@ import {
   WallRenderer,
   StairRenderer,
   RoomManager,
+  FurnitureManager,
+  FurnitureSelectionManager,
+  FurnitureLogicRegistry,
+  FurnitureTypeRegistry,
+  FurnitureVisualizer,
+  WallItemManager,
+  RoomUnitManager,
+  RoomClock,
+  Furniture,
   InputManager,
   CameraManager,
   MeshCache,
   RoomObjectCategory,
+  Vector3,
   type TilePosition,
-  type TileMesh
+  type TileMesh,
+  type FurnitureIntent,
+  type AvatarData,
+  type RoomData,
+  type RoomUnit
 } from '@polaris/renderer';
-import { useGameStore } from '@core/store';
+import { useGameStore, type RoomObjectAction } from '@core/store';
+import { gameEvents, type FloorplanUpdateEvent, type FurnitureActionEvent, type UnitChatEvent } from '@core/events';
 
 export class RoomScene extends Phaser.Scene {
+  private static readonly CHAT_LOOK_RADIUS = 4;
+
   private roomManager!: RoomManager;
   private inputManager!: InputManager;
   private cameraManager!: CameraManager;
   private meshCache!: MeshCache;
 
   private avatar!: HabboAvatarSprite;
+  private avatarData!: AvatarData;
+  private pendingSeat: TilePosition | null = null;
   private pathFinder!: PathFinder;
   private floorRenderer!: FloorRenderer;
   private wallRenderer!: WallRenderer;
   private stairRenderer!: StairRenderer;
+  private furnitureManager!: FurnitureManager;
+  private wallItemManager!: WallItemManager;
+  private unitManager!: RoomUnitManager;
+  private eventSubscriptions: Array<() => void> = [];
+  private selectionManager!: FurnitureSelectionManager;
+  private placementGhost: Furniture | null = null;
   private hoverGraphics!: Phaser.GameObjects.Graphics;
   private wallGraphicsObject?: Phaser.GameObjects.Graphics;
+  private doorFrameGraphics?: Phaser.GameObjects.Graphics;
+
+  private clock: RoomClock = new RoomClock();
 
   private lastRecenterTime: number = 0;
   private recenterCooldown: number = 1000;
@@ -38,9 +66,14 @@ export class RoomScene extends Phaser.Scene {
     super({ key: 'RoomScene' });
   }
 
-  public init(): void {
+  public init(data: { roomData?: RoomData } = {}): void {
     this.roomManager = new RoomManager();
+
+    if (data.roomData) {
+      this.roomManager.loadRoom(data.roomData);
+    }
     this.meshCache = new MeshCache();
+    this.clock = new RoomClock();
 
     const roomData = this.roomManager.getRoomData();
     useGameStore.getState().setRoomName(roomData.name);
@@ -52,15 +85,26 @@ export class RoomScene extends Phaser.Scene {
 
     this.inputManager = new InputManager(this, this.roomManager);
 
-    this.game.events.on('floorplan-updated', this.handleFloorplanUpdate, this);
+    this.eventSubscriptions = [
+      gameEvents.on('floorplan-updated', (data) => this.handleFloorplanUpdate(data)),
+      gameEvents.on('avatar-dance', (style) => this.handleDance(style)),
+      gameEvents.on('avatar-figure-changed', (figure) => this.handleFigureChanged(figure)),
+      gameEvents.on('furniture-action', (event) => this.handleFurnitureAction(event)),
+      gameEvents.on('furniture-redeem-confirmed', (furnitureId) => this.handleRedeemConfirmed(furnitureId)),
+      gameEvents.on('unit-chat', (event) => this.handleUnitChat(event))
+    ];
 
-    this.createAvatarAtlas();
     this.setupRenderers();
     this.setupAvatar();
+    this.setupFurnitureSelection();
     this.setupInputCallbacks();
   }
 
   public shutdown(): void {
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions = [];
+    useGameStore.getState().setSelectedObject(null);
+
     if (this.cameraManager) {
       this.cameraManager.destroy();
     }
@@ -69,14 +113,32 @@ export class RoomScene extends Phaser.Scene {
       this.inputManager.destroy();
     }
 
-    if (this.avatar) {
-      this.avatar.destroy();
+    if (this.unitManager) {
+      this.unitManager.destroy();
+    }
+
+    if (this.selectionManager) {
+      this.selectionManager.destroy();
+    }
+
+    this.destroyPlacementGhost();
+
+    if (this.furnitureManager) {
+      this.furnitureManager.destroy();
+    }
+
+    if (this.wallItemManager) {
+      this.wallItemManager.destroy();
     }
 
     if (this.wallGraphicsObject) {
       this.wallGraphicsObject.destroy();
     }
 
+    if (this.doorFrameGraphics) {
+      this.doorFrameGraphics.destroy();
+    }
+
     if (this.hoverGraphics) {
       this.hoverGraphics.destroy();
     }
@@ -91,6 +153,13 @@ export class RoomScene extends Phaser.Scene {
 
     this.stairRenderer = new StairRenderer(this);
 
+    this.furnitureManager = new FurnitureManager(this);
+    this.inputManager.setFurnitureManager(this.furnitureManager);
+
+    this.wallItemManager = new WallItemManager(this);
+    this.unitManager = new RoomUnitManager(this);
+    this.unitManager.onUnitChat((unit, message) => this.handleRoomUnitChat(unit, message));
+
     this.hoverGraphics = this.add.graphics();
     this.hoverGraphics.setDepth(998);
 
@@ -102,90 +171,417 @@ export class RoomScene extends Phaser.Scene {
 
   private setupAvatar(): void {
     const roomData = this.roomManager.getRoomData();
-    this.pathFinder = new PathFinder(roomData.tiles, roomData.maxX, roomData.maxY, roomData.doorTile);
+    this.pathFinder = new PathFinder(
+      roomData.tiles,
+      roomData.maxX,
+      roomData.maxY,
+      roomData.doorTile,
+      roomData.pathfinding
+    );
+    this.pathFinder.setFurnitureTileMap(this.furnitureManager.getTileMap());
 
     const spawnPos = roomData.doorTile || this.roomManager.getCenterPosition();
     const spawnTile = this.roomManager.getTile(spawnPos.x, spawnPos.y);
     const spawnZ = spawnTile?.height || 0;
 
-    this.avatar = new HabboAvatarSprite(this, 1, 'User_Avatar', spawnPos.x, spawnPos.y, spawnZ);
-    this.updateAvatarDepthRelativeToDoor();
+    const figure = useGameStore.getState().userFigure;
+
+    this.unitManager.setPathFinder(this.pathFinder);
+    this.unitManager.setUnits(roomData.avatars);
+    this.unitManager.setPets(roomData.pets || []);
+    this.unitManager.setBots(roomData.bots || []);
+
+    this.avatarData = {
+      id: 1,
+      userId: 1,
+      username: 'User_Avatar',
+      figure,
+      posture: 'std',
+      gesture: null,
+      headDirection: 2,
+      direction: 2,
+      position: new Vector3(spawnPos.x, spawnPos.y, spawnZ),
+      category: RoomObjectCategory.UNIT
+    };
+
+    this.avatar = this.unitManager.addUnit(this.avatarData);
+    this.avatar.onArrival(() => this.handleAvatarArrival());
+    this.unitManager.getMovementController(this.avatar)?.onGiveUp(() => this.handleAvatarArrival());
+    this.pendingSeat = null;
+  }
+
+  private setupFurnitureSelection(): void {
+    this.selectionManager = new FurnitureSelectionManager();
+    this.selectionManager.onIntent(this.handleFurnitureIntent, this);
+
+    this.onShortcut('R', () => this.selectionManager.rotate());
+    this.onShortcut('M', () => this.startFurnitureMove());
+    this.onShortcut('P', () => this.selectionManager.pickup());
+    this.input.keyboard?.on('keydown-ESC', () => {
+      if (this.selectionManager.isMoving()) {
+        this.selectionManager.cancelMove();
+        this.destroyPlacementGhost();
+      } else {
+        this.selectionManager.deselect();
+      }
+    });
+  }
+
+  private onShortcut(key: string, handler: () => void): void {
+    this.input.keyboard?.on(`keydown-${key}`, () => {
+      if (!useGameStore.getState().isChatFocused) {
+        handler();
+      }
+    });
   }
 
   private setupInputCallbacks(): void {
     this.inputManager.onTileClick((tile) => this.handleTileClick(tile));
     this.inputManager.onTileHover((tile) => this.handleTileHover(tile));
+    this.inputManager.onFurnitureClick((furniture, tile) => this.handleFurnitureClick(furniture, tile));
   }
 
-  private createAvatarAtlas(): void {
-    const meta = this.cache.json.get('figure_hh_human_body_meta');
-
-    if (!meta || !meta.spritesheet) return;
+  private handleFurnitureClick(furniture: Furniture, tile: TilePosition | null): void {
+    if (this.selectionManager.isMoving()) {
+      if (tile) {
+        this.handleTileClick(tile);
+      }
+      return;
+    }
 
-    const textureKey = 'avatar_body';
-    const imageKey = 'figure_hh_human_body_texture';
+    const wasSelected = this.selectionManager.getSelectedId() === furniture.getId();
+    this.selectionManager.select(furniture.getId());
 
-    if (this.textures.exists(textureKey)) return;
+    if (wasSelected) {
+      const [action] = FurnitureLogicRegistry.getInstance().getActions(furniture);
 
-    const frames = meta.spritesheet.frames;
-    interface FrameData {
-      [key: string]: {
-        frame: { x: number; y: number; w: number; h: number };
-        rotated: boolean;
-        trimmed: boolean;
-        spriteSourceSize: { x: number; y: number; w: number; h: number };
-        sourceSize: { w: number; h: number };
-      };
+      if (action && this.selectionManager.runAction(furniture, action.id)) {
+        return;
+      }
     }
-    const frameData: FrameData = {};
 
-    for (const frameName in frames) {
-      const frame = frames[frameName];
-      const cleanName = frameName.replace('hh_human_body_', '');
+    const data = furniture.getData();
+    const onFootprint = tile !== null && this.furnitureManager
+      .getFootprint(data)
+      .some(footprintTile => footprintTile.x === tile.x && footprintTile.y === tile.y);
+    const target = onFootprint ? tile! : { x: data.position.x, y: data.position.y };
 
-      frameData[cleanName] = {
-        frame: frame.frame,
-        rotated: false,
-        trimmed: frame.trimmed || false,
-        spriteSourceSize: frame.spriteSourceSize,
-        sourceSize: frame.sourceSize
-      };
+    if (this.furnitureManager.getTileMap().isSeat(target.x, target.y)) {
+      this.walkAvatarTo(target);
     }
+  }
+
+  private handleFurnitureIntent(intent: FurnitureIntent): void {
+    const furniture = this.furnitureManager.getFurniture(intent.furnitureId);
 
-    const atlasData = {
-      frames: frameData,
-      meta: {
-        image: imageKey,
-        format: 'RGBA8888',
-        size: meta.spritesheet.meta.size,
-        scale: 1
+    switch (intent.type) {
+      case 'select':
+        if (furniture) {
+          this.publishSelectedFurniture(furniture);
+        }
+        break;
+      case 'rotate':
+        this.furnitureManager.rotateFurniture(intent.furnitureId);
+        break;
+      case 'move':
+        if (furniture && intent.position) {
+          const { x, y } = intent.position;
+          this.furnitureManager.moveFurniture(intent.furnitureId, x, y, this.getPlacementHeight(intent.furnitureId, x, y));
+        }
+        this.destroyPlacementGhost();
+        break;
+      case 'pickup': {
+        const roomData = this.roomManager.getRoomData();
+        roomData.furniture = roomData.furniture.filter(item => item.id !== intent.furnitureId);
+        this.furnitureManager.removeFurniture(intent.furnitureId);
+        this.destroyPlacementGhost();
+        useGameStore.getState().setSelectedObject(null);
+        break;
       }
-    };
+      case 'use':
+        if (furniture) {
+          this.furnitureManager.setFurnitureState(intent.furnitureId, furniture.getNextState());
+        }
+        break;
+      case 'redeem':
+        if (furniture && intent.credits) {
+          const type = FurnitureTypeRegistry.getInstance().getType(furniture.getData().typeId);
+
+          useGameStore.getState().requestRedeem({
+            furnitureId: intent.furnitureId,
+            name: type?.name || furniture.getClassName(),
+            credits: intent.credits
+          });
+        }
+        break;
+      case 'deselect':
+        this.destroyPlacementGhost();
+        useGameStore.getState().setSelectedObject(null);
+        break;
+    }
+  }
+
+  private publishSelectedFurniture(furniture: Furniture): void {
+    const data = furniture.getData();
+    const type = FurnitureTypeRegistry.getInstance().getType(data.typeId);
+    const actions: RoomObjectAction[] = [];
+
+    if (furniture.getValidDirections().length > 1) {
+      actions.push({ id: 'rotate', label: 'Rotate' });
+    }
+
+    actions.push({ id: 'move', label: 'Move' }, { id: 'pickup', label: 'Pick up' });
+
+    if (furniture.getStateCount() > 1) {
+      actions.push({ id: 'use', label: 'Use' });
+    }
+
+    actions.push(...FurnitureLogicRegistry.getInstance().getActions(furniture));
+
+    useGameStore.getState().setSelectedObject({
+      id: data.id,
+      category: 'furniture',
+      name: type?.name || furniture.getClassName(),
+      description: type?.description || '',
+      icon: FurnitureVisualizer.getIconDataUrl(this, furniture.getClassName()),
+      owner: data.ownerName || null,
+      actions
+    });
+  }
+
+  private handleFurnitureAction(event: FurnitureActionEvent): void {
+    const furniture = this.furnitureManager.getFurniture(event.furnitureId);
+    if (!furniture || this.selectionManager.getSelectedId() !== event.furnitureId) return;
+
+    switch (event.action) {
+      case 'rotate':
+        this.selectionManager.rotate();
+        break;
+      case 'move':
+        this.startFurnitureMove();
+        break;
+      case 'pickup':
+        this.selectionManager.pickup();
+        break;
+      case 'use':
+        this.selectionManager.use();
+        break;
+      default:
+        this.selectionManager.runAction(furniture, event.action);
+    }
+  }
+
+  private handleFigureChanged(figure: string): void {
+    this.avatar.setFigure(figure);
+    this.avatarData.figure = figure;
+  }
+
+  private handleDance(style: number): void {
+    if (this.avatar.setDance(style)) {
+      this.avatarData.dance = this.avatar.getDance();
+    }
+  }
+
+  private handleRedeemConfirmed(furnitureId: number): void {
+    const store = useGameStore.getState();
+    if (store.pendingRedeem?.furnitureId !== furnitureId) return;
+
+    if (this.selectionManager.getSelectedId() === furnitureId) {
+      this.selectionManager.deselect();
+    }
+
+    const roomData = this.roomManager.getRoomData();
+    roomData.furniture = roomData.furniture.filter(item => item.id !== furnitureId);
+    this.furnitureManager.removeFurniture(furnitureId);
+
+    store.completeRedeem(furnitureId);
+  }
+
+  private startFurnitureMove(): void {
+    const selectedId = this.selectionManager.getSelectedId();
+    const furniture = selectedId !== null ? this.furnitureManager.getFurniture(selectedId) : null;
+    if (!furniture) return;
+
+    this.selectionManager.startMove();
+    this.destroyPlacementGhost();
+
+    const data = furniture.getData();
+    this.placementGhost = new Furniture(
+      this,
+      { ...data, id: -1, position: data.position.clone() },
+      furniture.getClassName()
+    );
+    this.placementGhost.render();
+    this.placementGhost.setAlpha(0.6);
+    this.placementGhost.setVisible(false);
+  }
+
+  private updatePlacementGhost(tile: TilePosition | null): void {
+    if (!this.placementGhost) return;
+
+    if (!tile) {
+      this.placementGhost.setVisible(false);
+      return;
+    }
+
+    const selectedId = this.selectionManager.getSelectedId()!;
+    const height = this.getPlacementHeight(selectedId, tile.x, tile.y);
+    const canPlace = this.canPlaceFurniture(selectedId, tile.x, tile.y);
+
+    this.placementGhost.setPosition(tile.x, tile.y, height);
+    this.placementGhost.setTint(canPlace ? 0x66ff66 : 0xff6666);
+    this.placementGhost.setVisible(true);
+  }
+
+  private canPlaceFurniture(furnitureId: number, x: number, y: number): boolean {
+    const furniture = this.furnitureManager.getFurniture(furnitureId);
+    if (!furniture) return false;
+
+    const data = furniture.getData();
+    const doorTile = this.roomManager.getRoomData().doorTile;
+
+    const onFloor = this.furnitureManager.getFootprint(data, x, y).every(tile => {
+      if (!this.roomManager.isTileWalkable(tile.x, tile.y)) return false;
+
+      return !doorTile || doorTile.x !== tile.x || doorTile.y !== tile.y;
+    });
+
+    return onFloor && this.furnitureManager.canStackAt(data, x, y);
+  }
 
-    this.textures.addAtlas(textureKey, this.textures.get(imageKey).getSourceImage() as HTMLImageElement, atlasData);
+  private getPlacementHeight(furnitureId: number, x: number, y: number): number {
+    const furniture = this.furnitureManager.getFurniture(furnitureId);
+    if (!furniture) return 0;
+
+    return this.furnitureManager.getPlacementHeight(
+      furniture.getData(),
+      x,
+      y,
+      (tileX, tileY) => this.roomManager.getTile(tileX, tileY)?.height || 0
+    );
+  }
+
+  private destroyPlacementGhost(): void {
+    if (this.placementGhost) {
+      this.placementGhost.destroy();
+      this.placementGhost = null;
+    }
   }
 
   private handleTileClick(tile: TilePosition): void {
+    if (this.selectionManager.isMoving()) {
+      const selectedId = this.selectionManager.getSelectedId();
+
+      if (selectedId !== null && this.canPlaceFurniture(selectedId, tile.x, tile.y)) {
+        this.selectionManager.move(tile.x, tile.y);
+      }
+      return;
+    }
+
+    this.selectionManager.deselect();
+
     if (!this.roomManager.isTileWalkable(tile.x, tile.y)) {
+      this.lookAvatarAt(tile.x, tile.y);
       return;
     }
 
+    this.walkAvatarTo(tile);
+  }
+
+  private lookAvatarAt(x: number, y: number): void {
+    this.avatar.lookAt(x, y);
+    this.avatarData.headDirection = this.avatar.getHeadDirection();
+  }
+
+  private handleRoomUnitChat(unit: RoomUnit, message: string): void {
+    const { x, y } = unit.getTilePosition();
+    const unitType = this.unitManager.getUnitType(unit) ?? 'avatar';
+
+    useGameStore.getState().addChatMessage({
+      id: `${Date.now()}-${unitType}-${unit.getId()}`,
+      userId: unitType === 'avatar' ? `${unit.getId()}` : `${unitType}-${unit.getId()}`,
+      username: unit.getName(),
+      message,
+      timestamp: Date.now()
+    });
+
+    gameEvents.emit('unit-chat', { unitType, unitId: unit.getId(), message, x, y });
+  }
+
+  private handleUnitChat(event: UnitChatEvent): void {
+    if (event.unitType === 'avatar' && event.unitId === this.avatarData.id) return;
+
+    const position = this.avatar.getPosition();
+    const distance = Math.max(Math.abs(event.x - position.x), Math.abs(event.y - position.y));
+
+    if (distance <= RoomScene.CHAT_LOOK_RADIUS) {
+      this.lookAvatarAt(event.x, event.y);
+    }
+  }
+
+  private walkAvatarTo(tile: TilePosition): void {
+    const movement = this.unitManager.getMovementController(this.avatar);
     const avatarPos = this.avatar.getTilePosition();
-    const path = this.pathFinder.findPath(avatarPos.x, avatarPos.y, tile.x, tile.y);
+    const path = movement
+      ? movement.findPath(tile.x, tile.y)
+      : this.pathFinder.findPath(avatarPos.x, avatarPos.y, tile.x, tile.y);
+
+    if (!path) {
+      this.lookAvatarAt(tile.x, tile.y);
+      return;
+    }
+
+    this.pendingSeat = this.furnitureManager.getTileMap().isSeat(tile.x, tile.y) ? tile : null;
+
+    if (path.length === 0) {
+      this.handleAvatarArrival();
+      return;
+    }
 
-    if (path) {
-      this.avatar.walkTo(path);
+    movement?.cancel();
+    this.avatar.walkTo(path);
+    this.avatarData.posture = 'wlk';
+    this.avatarData.dance = this.avatar.getDance();
 
-      useGameStore.getState().setAvatarMoving(true);
-      useGameStore.getState().setAvatarPosition({
-        x: tile.x,
-        y: tile.y,
-        z: this.roomManager.getTile(tile.x, tile.y)?.height || 0
-      });
+    const tileHeight = this.roomManager.getTile(tile.x, tile.y)?.height || 0;
+
+    useGameStore.getState().setAvatarMoving(true);
+    useGameStore.getState().setAvatarPosition({
+      x: tile.x,
+      y: tile.y,
+      z: this.furnitureManager.getTileMap().getWalkHeight(tile.x, tile.y, tileHeight)
+    });
+  }
+
+  private handleAvatarArrival(): void {
+    const seat = this.pendingSeat;
+    this.pendingSeat = null;
+
+    const avatarTile = this.avatar.getTilePosition();
+    const seatInfo = seat ? this.furnitureManager.getTileMap().getTileInfo(seat.x, seat.y) : null;
+
+    if (
+      seat &&
+      seatInfo &&
+      (seatInfo.usage === 'sit' || seatInfo.usage === 'lay') &&
+      avatarTile.x === seat.x &&
+      avatarTile.y === seat.y
+    ) {
+      this.avatar.setPosture(seatInfo.usage, seatInfo.direction, seatInfo.height);
+      this.avatarData.posture = seatInfo.usage;
+      this.avatarData.direction = seatInfo.direction;
+      this.avatarData.headDirection = seatInfo.direction;
+      return;
     }
+
+    this.avatarData.posture = 'std';
   }
 
   private handleTileHover(tile: TilePosition | null): void {
+    if (this.selectionManager.isMoving()) {
+      this.updatePlacementGhost(tile);
+    }
+
     if (tile) {
       this.renderHoverTile(tile.x, tile.y);
     } else {
@@ -193,18 +589,23 @@ export class RoomScene extends Phaser.Scene {
     }
   }
 
-  private handleFloorplanUpdate(data: any): void {
+  private handleFloorplanUpdate(data: FloorplanUpdateEvent): void {
     console.log('Reloading room with new data:', data);
 
     const { pattern, wallHeight, wallThickness, floorThickness } = data;
 
+    this.selectionManager.deselect();
+    this.furnitureManager.clear();
+    this.wallItemManager.clear();
+    this.unitManager.clear();
+
     const childrenToDestroy: Phaser.GameObjects.GameObject[] = [];
     this.children.each((child) => {
       if (child instanceof Phaser.GameObjects.Graphics ||
           child instanceof Phaser.GameObjects.Container ||
           child instanceof Phaser.GameObjects.Image ||
           child instanceof Phaser.GameObjects.Sprite) {
-        if (child !== this.avatar.container && child !== this.hoverGraphics) {
+        if (child !== this.hoverGraphics) {
           childrenToDestroy.push(child);
         }
       }
@@ -214,7 +615,10 @@ export class RoomScene extends Phaser.Scene {
 
     this.roomManager = new RoomManager(pattern);
     this.meshCache = new MeshCache();
+    this.inputManager.destroy();
     this.inputManager = new InputManager(this, this.roomManager);
+    this.inputManager.setFurnitureManager(this.furnitureManager);
+    this.setupInputCallbacks();
 
     if (wallHeight !== undefined) {
       this.wallRenderer.setWallHeight(wallHeight);
@@ -227,11 +631,7 @@ export class RoomScene extends Phaser.Scene {
     }
 
     this.renderRoom();
-
-    if (this.avatar) {
-      this.avatar.destroy();
-      this.setupAvatar();
-    }
+    this.setupAvatar();
   }
 
   private renderRoom(): void {
@@ -266,10 +666,13 @@ export class RoomScene extends Phaser.Scene {
       this.wallGraphicsObject.destroy();
     }
 
+    if (this.doorFrameGraphics) {
+      this.doorFrameGraphics.destroy();
+      this.doorFrameGraphics = undefined;
+    }
+
     this.wallGraphicsObject = this.add.graphics();
-    // @ts-ignore
-      const doorDepth = DepthManager.getCategoryLayerOffset(RoomObjectCategory.DOOR);
-    this.wallGraphicsObject.setDepth(doorDepth);
+    this.wallGraphicsObject.setDepth(DepthManager.getWallDepth());
 
     this.wallRenderer.setMaxHeight(roomData.maxHeight);
     this.wallRenderer.renderWalls(this.wallGraphicsObject, wallMeshes);
@@ -283,10 +686,24 @@ export class RoomScene extends Phaser.Scene {
         const geometryMask = doorMaskGraphics.createGeometryMask();
         geometryMask.invertAlpha = true;
         this.wallGraphicsObject.setMask(geometryMask);
+
+        this.doorFrameGraphics = this.add.graphics();
+        this.doorFrameGraphics.setDepth(
+          DepthManager.getDepth(roomData.doorTile.x, roomData.doorTile.y, doorTile.height, RoomObjectCategory.DOOR)
+        );
+        this.wallRenderer.renderWalls(this.doorFrameGraphics, wallMeshes);
+
+        const doorFrameMaskGraphics = this.createDoorFrameMaskGraphics(roomData.doorTile.x, roomData.doorTile.y, doorTile.height);
+        this.doorFrameGraphics.setMask(doorFrameMaskGraphics.createGeometryMask());
       }
     }
 
     this.renderTileBorders(stairTilePositions);
+
+    this.furnitureManager.setFurniture(roomData.furniture);
+
+    this.wallItemManager.setWalls(wallMeshes, this.wallRenderer);
+    this.wallItemManager.setWallItems(roomData.wallItems || []);
   }
 
   private renderTileBorders(stairTilePositions: Set<string>): void {
@@ -366,10 +783,42 @@ export class RoomScene extends Phaser.Scene {
     return doorMaskGraphics;
   }
 
+  private createDoorFrameMaskGraphics(doorX: number, doorY: number, doorZ: number): Phaser.GameObjects.Graphics {
+    const doorHeight = 80;
+    const frameHeight = 1000;
+    const frameMargin = 32;
+    const tileBase = {
+      x: 32 * (doorX + 1) - 32 * doorY,
+      y: 16 * (doorX + 1) + 16 * doorY - 32 * doorZ
+    };
+
+    const doorFrameMaskGraphics = this.add.graphics();
+    doorFrameMaskGraphics.fillStyle(0xffffff, 1);
+
+    doorFrameMaskGraphics.beginPath();
+    doorFrameMaskGraphics.moveTo(tileBase.x - 32 - frameMargin, tileBase.y + 16 + frameMargin);
+    doorFrameMaskGraphics.lineTo(tileBase.x, tileBase.y + frameMargin);
+    doorFrameMaskGraphics.lineTo(tileBase.x, tileBase.y - frameHeight);
+    doorFrameMaskGraphics.lineTo(tileBase.x - 32 - frameMargin, tileBase.y - frameHeight);
+    doorFrameMaskGraphics.closePath();
+    doorFrameMaskGraphics.fillPath();
+
+    doorFrameMaskGraphics.beginPath();
+    doorFrameMaskGraphics.moveTo(tileBase.x, tileBase.y - doorHeight);
+    doorFrameMaskGraphics.lineTo(tileBase.x + 32, tileBase.y - 16 - doorHeight);
+    doorFrameMaskGraphics.lineTo(tileBase.x + 32, tileBase.y - frameHeight);
+    doorFrameMaskGraphics.lineTo(tileBase.x, tileBase.y - frameHeight);
+    doorFrameMaskGraphics.closePath();
+    doorFrameMaskGraphics.fillPath();
+    doorFrameMaskGraphics.setVisible(false);
+
+    return doorFrameMaskGraphics;
+  }
+
   public update(time: number, delta: number): void{
-    if (this.avatar) {
-      this.avatar.update(time, delta);
+    this.advanceRoom(this.clock.advance(delta));
 
+    if (this.avatar) {
       const isMoving = this.avatar.isMoving();
       const storeMovingState = useGameStore.getState().isAvatarMoving;
 
@@ -377,13 +826,38 @@ export class RoomScene extends Phaser.Scene {
         useGameStore.getState().setAvatarMoving(isMoving);
       }
 
-      this.updateAvatarDepthRelativeToDoor();
       this.checkAndRecenterCamera(time);
     }
 
     this.inputManager.update();
   }
 
+  private advanceRoom(delta: number): void {
+    this.furnitureManager.update(delta);
+    this.wallItemManager.update(delta);
+    this.unitManager.update(this.clock.getTime(), delta);
+  }
+
+  public setPaused(paused: boolean): void {
+    if (paused) {
+      this.clock.pause();
+    } else {
+      this.clock.resume();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.clock.isPaused();
+  }
+
+  public setTimeScale(timeScale: number): void {
+    this.clock.setTimeScale(timeScale);
+  }
+
+  public step(ticks: number = 1): void {
+    this.advanceRoom(this.clock.step(ticks));
+  }
+
   private checkAndRecenterCamera(currentTime: number): void {
     if (currentTime - this.lastRecenterTime < this.recenterCooldown) {
       return;
@@ -414,30 +888,6 @@ export class RoomScene extends Phaser.Scene {
     }
   }
 
-  private updateAvatarDepthRelativeToDoor(): void {
-    const roomData = this.roomManager.getRoomData();
-    if (!roomData.doorTile) return;
-
-    const avatarPos = this.avatar.getPosition();
-    const doorTile = this.roomManager.getTile(roomData.doorTile.x, roomData.doorTile.y);
-    if (!doorTile) return;
-
-    const dx = avatarPos.x - roomData.doorTile.x;
-    const dy = avatarPos.y - roomData.doorTile.y;
-    const distanceToDoor = Math.sqrt(dx * dx + dy * dy);
-
-    // @ts-ignore
-      const doorGraphicsDepth = DepthManager.getCategoryLayerOffset(RoomObjectCategory.DOOR);
-
-    if (distanceToDoor <= 0.5) {
-      const finalDepth = doorGraphicsDepth - 100000;
-      this.avatar.setDepth(finalDepth);
-    } else {
-      const finalDepth = doorGraphicsDepth + 100000;
-      this.avatar.setDepth(finalDepth);
-    }
-  }
-
   private renderHoverTile(tileX: number, tileY: number): void {
     this.hoverGraphics.clear();
 
@@ -0,0 +1,70 @@
+import { FC } from 'react';
+import { FigureDataRegistry, FigureParser } from '@polaris/renderer';
+import { useGameStore } from '@core/store';
+import { gameEvents } from '@core/events';
+import './AvatarEditor.scss';
+
+interface ColorSection {
+  type: string;
+  label: string;
+}
+
+const COLOR_SECTIONS: ColorSection[] = [
+  { type: 'hr', label: 'Hair' },
+  { type: 'ch', label: 'Shirt' }
+];
+
+export const AvatarEditor: FC = () => {
+  const showEditor = useGameStore((state) => state.showAvatarEditor);
+  const toggleEditor = useGameStore((state) => state.toggleAvatarEditor);
+  const userFigure = useGameStore((state) => state.userFigure);
+  const setUserFigure = useGameStore((state) => state.setUserFigure);
+
+  if (!showEditor) return null;
+
+  const figureData = FigureDataRegistry.getInstance();
+  const selections = FigureParser.parse(userFigure);
+
+  const handleColorSelect = (type: string, colorId: number) => {
+    const updated = selections.map(selection =>
+      selection.type === type ? { ...selection, colors: [colorId, ...selection.colors.slice(1)] } : selection
+    );
+    const figure = FigureParser.stringify(updated);
+
+    setUserFigure(figure);
+    gameEvents.emit('avatar-figure-changed', figure);
+  };
+
+  return (
+    <div className="avatar-editor">
+      <div className="avatar-editor-header">
+        <h2>Avatar</h2>
+        <button className="close-btn" onClick={toggleEditor}>×</button>
+      </div>
+      <div className="avatar-editor-content">
+        {COLOR_SECTIONS.map(section => {
+          const selection = selections.find(entry => entry.type === section.type);
+          const set = selection ? figureData.getSet(selection.type, selection.setId) : null;
+          if (!selection || set?.paletteId === undefined) return null;
+
+          return (
+            <div key={section.type} className="color-section">
+              <h3>{section.label}</h3>
+              <div className="color-swatches">
+                {figureData.getSelectableColors(set.paletteId).map(color => (
+                  <button
+                    key={color.id}
+                    className={`color-swatch${selection.colors[0] === color.id ? ' selected' : ''}`}
+                    style={{ backgroundColor: `#${color.color}` }}
+                    title={`#${color.color}`}
+                    onClick={() => handleColorSelect(section.type, color.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { AvatarEditor } from './AvatarEditor';
@@ -0,0 +1,48 @@
+import { FC, FormEvent, useState } from 'react';
+import { useGameStore } from '@core/store';
+import { gameEvents } from '@core/events';
+import { parseChatCommand } from '@core/chatCommands';
+import './ChatInput.scss';
+
+export const ChatInput: FC = () => {
+  const [text, setText] = useState('');
+  const addChatMessage = useGameStore((state) => state.addChatMessage);
+  const setChatFocused = useGameStore((state) => state.setChatFocused);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+
+    const message = text.trim();
+    if (!message) return;
+
+    const command = parseChatCommand(message);
+
+    if (command?.type === 'dance') {
+      gameEvents.emit('avatar-dance', command.style);
+    } else if (!message.startsWith('/')) {
+      addChatMessage({
+        id: `${Date.now()}`,
+        userId: '1',
+        username: 'User_Avatar',
+        message,
+        timestamp: Date.now()
+      });
+    }
+
+    setText('');
+  };
+
+  return (
+    <form className="chat-input" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={text}
+        maxLength={100}
+        placeholder="Click here to chat..."
+        onChange={(event) => setText(event.target.value)}
+        onFocus={() => setChatFocused(true)}
+        onBlur={() => setChatFocused(false)}
+      />
+    </form>
+  );
+};
@@ -0,0 +1 @@
+export { ChatInput } from './ChatInput';
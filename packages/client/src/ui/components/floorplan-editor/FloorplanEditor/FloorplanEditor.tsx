@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import './FloorplanEditor.scss';
 import { FloorplanToolbar } from '../FloorplanToolbar/FloorplanToolbar';
 import { FloorplanCanvas } from '../FloorplanCanvas/FloorplanCanvas';
+import { gameEvents } from '@core/events';
 
 export enum FloorAction {
   SET = 'SET',
@@ -82,15 +83,12 @@ export function FloorplanEditor({ onClose }: FloorplanEditorProps) {
     if (pattern) {
       console.log('Saving floorplan:', pattern);
 
-      const game = (window as any).game;
-      if (game) {
-        game.events.emit('floorplan-updated', {
-          pattern,
-          wallHeight: editorState.wallHeight,
-          wallThickness: editorState.wallThickness,
-          floorThickness: editorState.floorThickness
-        });
-      }
+      gameEvents.emit('floorplan-updated', {
+        pattern,
+        wallHeight: editorState.wallHeight,
+        wallThickness: editorState.wallThickness,
+        floorThickness: editorState.floorThickness
+      });
     }
   };
 
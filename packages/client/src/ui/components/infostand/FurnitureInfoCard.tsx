@@ -0,0 +1,36 @@
+import { FC } from 'react';
+import { useGameStore } from '@core/store';
+import { gameEvents } from '@core/events';
+import './FurnitureInfoCard.scss';
+
+export const FurnitureInfoCard: FC = () => {
+  const selectedObject = useGameStore((state) => state.selectedObject);
+
+  if (!selectedObject || selectedObject.category !== 'furniture') return null;
+
+  const handleAction = (action: string) => {
+    gameEvents.emit('furniture-action', { furnitureId: selectedObject.id, action });
+  };
+
+  return (
+    <div className="furniture-info-card">
+      <div className="info-card-body">
+        <h3>{selectedObject.name}</h3>
+        <div className="info-card-icon">
+          {selectedObject.icon && <img src={selectedObject.icon} alt={selectedObject.name} />}
+        </div>
+        {selectedObject.description && <p className="info-card-description">{selectedObject.description}</p>}
+        <p className="info-card-owner">
+          Owner: {selectedObject.owner || 'Unknown'}
+        </p>
+      </div>
+      <div className="info-card-actions">
+        {selectedObject.actions.map(action => (
+          <button key={action.id} className="btn" onClick={() => handleAction(action.id)}>
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
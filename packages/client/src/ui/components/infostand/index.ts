@@ -0,0 +1 @@
+export { FurnitureInfoCard } from './FurnitureInfoCard';
@@ -0,0 +1,32 @@
+import { FC } from 'react';
+import { useGameStore } from '@core/store';
+import { gameEvents } from '@core/events';
+import './RedeemDialog.scss';
+
+export const RedeemDialog: FC = () => {
+  const pendingRedeem = useGameStore((state) => state.pendingRedeem);
+  const cancelRedeem = useGameStore((state) => state.cancelRedeem);
+
+  if (!pendingRedeem) return null;
+
+  const handleConfirm = () => {
+    gameEvents.emit('furniture-redeem-confirmed', pendingRedeem.furnitureId);
+  };
+
+  return (
+    <div className="redeem-dialog">
+      <div className="redeem-dialog-header">
+        <h2>Redeem {pendingRedeem.name}</h2>
+        <button className="close-btn" onClick={cancelRedeem}>×</button>
+      </div>
+      <div className="redeem-dialog-content">
+        <p>This item is worth <strong>{pendingRedeem.credits} credits</strong>.</p>
+        <p>Redeeming it will remove it from the room and add the credits to your wallet.</p>
+      </div>
+      <div className="redeem-dialog-footer">
+        <button className="btn btn-secondary" onClick={cancelRedeem}>Cancel</button>
+        <button className="btn btn-primary" onClick={handleConfirm}>Redeem</button>
+      </div>
+    </div>
+  );
+};
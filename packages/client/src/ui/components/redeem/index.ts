@@ -0,0 +1 @@
+export { RedeemDialog } from './RedeemDialog';
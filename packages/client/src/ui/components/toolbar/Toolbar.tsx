@@ -1,4 +1,5 @@
 import { FC } from 'react';
+import { useGameStore } from '@core/store';
 import './Toolbar.scss';
 
 interface ToolbarButton {
@@ -9,8 +10,10 @@ interface ToolbarButton {
 }
 
 export const Toolbar: FC = () => {
-  const userFigure = 'hd-180-1.hr-100-61.ch-210-66.lg-270-82.sh-290-81';
+  const userFigure = useGameStore((state) => state.userFigure);
   const userName = 'Guest';
+  const walletBalance = useGameStore((state) => state.walletBalance);
+  const toggleAvatarEditor = useGameStore((state) => state.toggleAvatarEditor);
 
   const mainActions: ToolbarButton[] = [
     {
@@ -70,7 +73,7 @@ export const Toolbar: FC = () => {
       </div>
 
       <div className="user-cluster">
-        <div className="toolbar-user-avatar" title={userName}>
+        <div className="toolbar-user-avatar" title={userName} onClick={toggleAvatarEditor}>
           <div className="avatar-inner">
             <img
               src={`https://www.habbo.com/habbo-imaging/avatarimage?figure=${userFigure}&size=m&direction=2&head_direction=3&gesture=sml&headonly=1`}
@@ -78,6 +81,9 @@ export const Toolbar: FC = () => {
             />
           </div>
         </div>
+        <div className="toolbar-wallet" title="Credits">
+          {walletBalance}
+        </div>
       </div>
 
       <div className="settings-cluster">
@@ -2,6 +2,10 @@ import { useState } from 'react';
 import './App.scss';
 import { Toolbar } from '../components/toolbar';
 import { FloorplanEditor } from '../components/floorplan-editor';
+import { RedeemDialog } from '../components/redeem';
+import { FurnitureInfoCard } from '../components/infostand';
+import { AvatarEditor } from '../components/avatar-editor';
+import { ChatInput } from '../components/chat';
 
 export function App() {
   const [showFloorplanEditor, setShowFloorplanEditor] = useState(true);
@@ -9,6 +13,10 @@ export function App() {
   return (
     <div className="ui-container">
       <Toolbar />
+      <ChatInput />
+      <FurnitureInfoCard />
+      <AvatarEditor />
+      <RedeemDialog />
       {showFloorplanEditor && (
         <FloorplanEditor onClose={() => setShowFloorplanEditor(false)} />
       )}
@@ -0,0 +1,12 @@
+export interface AvatarAnimationFrame {
+  action: string;
+  frame?: number;
+  dx?: number;
+  dy?: number;
+}
+
+export interface AvatarAnimationSequence {
+  id: string;
+  frameRepeat?: number;
+  parts: Record<string, AvatarAnimationFrame[]>;
+}
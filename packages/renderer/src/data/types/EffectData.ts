@@ -0,0 +1,40 @@
+export interface AvatarEffectType {
+  id: number;
+  library: string;
+  name?: string;
+}
+
+export interface AvatarEffectSprite {
+  id: string;
+  member: string;
+  directional?: boolean;
+  ink?: string;
+  order?: 'behind' | 'front';
+}
+
+export interface AvatarEffectPartFrame {
+  type: string;
+  action?: string;
+  frame?: number;
+  dx?: number;
+  dy?: number;
+}
+
+export interface AvatarEffectSpriteFrame {
+  id: string;
+  frame?: number;
+  dx?: number;
+  dy?: number;
+}
+
+export interface AvatarEffectFrame {
+  parts?: AvatarEffectPartFrame[];
+  sprites?: AvatarEffectSpriteFrame[];
+}
+
+export interface AvatarEffectAnimation {
+  frameInterval?: number;
+  remove?: string[];
+  sprites?: AvatarEffectSprite[];
+  frames: AvatarEffectFrame[];
+}
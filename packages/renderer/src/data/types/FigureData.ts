@@ -0,0 +1,46 @@
+export const DEFAULT_AVATAR_FIGURE = 'hd-180-1';
+
+export interface FigurePartSelection {
+  type: string;
+  setId: number;
+  colors: number[];
+}
+
+export interface FigureSetPart {
+  id: number;
+  type: string;
+  colorable?: boolean;
+  colorIndex?: number;
+}
+
+export interface FigureSet {
+  id: number;
+  type: string;
+  library: string;
+  gender?: 'M' | 'F' | 'U';
+  paletteId?: number;
+  parts: FigureSetPart[];
+  hiddenLayers?: string[];
+}
+
+export interface FigureLayer {
+  type: string;
+  id: number;
+  library: string;
+  setType: string;
+  colors: number[];
+  tint: number | null;
+}
+
+export interface FigurePaletteColor {
+  id: number;
+  index: number;
+  color: string;
+  selectable: boolean;
+  club?: number;
+}
+
+export interface FigurePalette {
+  id: number;
+  colors: FigurePaletteColor[];
+}
@@ -0,0 +1,91 @@
+import type { Furniture } from '../../entities/Furniture';
+
+export interface FurnitureType {
+  id: number;
+  className: string;
+  name: string;
+  description?: string;
+  canStandOn?: boolean;
+  canSitOn?: boolean;
+  canLayOn?: boolean;
+  canStack?: boolean;
+}
+
+export type FurnitureTileUsage = 'blocked' | 'walkable' | 'sit' | 'lay';
+
+export interface FurnitureTileInfo {
+  furnitureId: number;
+  usage: FurnitureTileUsage;
+  direction: number;
+  height: number;
+  stackable: boolean;
+}
+
+export interface FurnitureAssetData {
+  x: number;
+  y: number;
+  source?: string;
+  flipH?: boolean;
+  flipV?: boolean;
+}
+
+export interface FurnitureVisualizationLayer {
+  x?: number;
+  y?: number;
+  z?: number;
+  ink?: string;
+  alpha?: number;
+  ignoreMouse?: boolean;
+}
+
+export interface FurnitureVisualizationDirection {
+  layers?: Record<string, FurnitureVisualizationLayer>;
+}
+
+export interface FurnitureAnimationFrame {
+  id: number;
+  x?: number;
+  y?: number;
+}
+
+export interface FurnitureAnimationLayer {
+  loopCount?: number;
+  frameRepeat?: number;
+  frameSequence: Array<number | FurnitureAnimationFrame>;
+}
+
+export interface FurnitureAnimationData {
+  transitionTo?: number;
+  transitionFrom?: number;
+  layers: Record<string, FurnitureAnimationLayer>;
+}
+
+export interface FurnitureVisualizationData {
+  angle: number;
+  layerCount: number;
+  size: number;
+  layers?: Record<string, FurnitureVisualizationLayer>;
+  directions?: Record<string, FurnitureVisualizationDirection>;
+  animations?: Record<string, FurnitureAnimationData>;
+}
+
+export type FurnitureIntentType = 'select' | 'deselect' | 'rotate' | 'move' | 'pickup' | 'use' | 'redeem';
+
+export interface FurnitureIntent {
+  type: FurnitureIntentType;
+  furnitureId: number;
+  position?: { x: number; y: number };
+  credits?: number;
+}
+
+export interface FurnitureAction {
+  id: string;
+  label: string;
+}
+
+export interface FurnitureLogicHandler {
+  readonly logicType: string;
+  getDetails(furniture: Furniture): Record<string, string | number>;
+  getActions(furniture: Furniture): FurnitureAction[];
+  createIntent(furniture: Furniture, actionId: string): FurnitureIntent | null;
+}
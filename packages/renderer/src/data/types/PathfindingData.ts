@@ -0,0 +1,9 @@
+export type CornerCutting = 'never' | 'partial' | 'always';
+
+export interface PathfindingOptions {
+  allowDiagonal: boolean;
+  cornerCutting: CornerCutting;
+  maxStepUp: number;
+  maxStepDown: number;
+  maxNodes: number;
+}
@@ -0,0 +1,13 @@
+export const DEFAULT_PET_FIGURE = '0 0 FFFFFF';
+
+export interface PetType {
+  id: number;
+  library: string;
+  name?: string;
+}
+
+export interface PetFigure {
+  typeId: number;
+  paletteId: number;
+  color: string;
+}
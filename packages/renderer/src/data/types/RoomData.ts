@@ -1,4 +1,5 @@
 import { Vector3 } from './Vector3';
+import { PathfindingOptions } from './PathfindingData';
 
 export interface Tile {
   x: number;
@@ -29,16 +30,75 @@ export interface FurniData extends RoomObject {
   state: number;
   width: number;
   length: number;
+  ownerId?: number;
+  ownerName?: string;
 }
 
+export type WallSide = 'north' | 'west';
+
+export interface WallLocation {
+  x: number;
+  y: number;
+  offsetX: number;
+  offsetY: number;
+  side: WallSide;
+}
+
+export interface WallItemData {
+  id: number;
+  typeId: number;
+  state: number;
+  location: WallLocation;
+}
+
+export type AvatarGesture = 'wave' | 'respect' | 'blow' | 'laugh';
+
 export interface AvatarData extends RoomObject {
   userId: number;
   username: string;
   figure: string;
   posture: 'std' | 'sit' | 'lay' | 'wlk';
+  gesture: AvatarGesture | null;
+  effect?: number | null;
+  dance?: number;
   headDirection: number;
 }
 
+export type BotRouteMode = 'loop' | 'pingpong';
+
+export interface BotRouteStep {
+  x: number;
+  y: number;
+  dwell?: number;
+}
+
+export interface BotRoute {
+  steps: BotRouteStep[];
+  mode: BotRouteMode;
+  dwell?: number;
+}
+
+export interface BotPhraseSchedule {
+  phrases: string[];
+  interval: number;
+  random?: boolean;
+}
+
+export interface BotData extends AvatarData {
+  route?: BotRoute;
+  phrases?: BotPhraseSchedule;
+}
+
+export type PetPosture = 'std' | 'sit' | 'lay' | 'beg';
+
+export interface PetData extends RoomObject {
+  name: string;
+  figure: string;
+  posture: PetPosture;
+  ownerId?: number;
+  ownerName?: string;
+}
+
 export interface RoomData {
   id: number;
   name: string;
@@ -50,7 +110,11 @@ export interface RoomData {
   wallType: string;
   floorType: string;
   doorTile?: { x: number; y: number };
+  pathfinding?: Partial<PathfindingOptions>;
   tiles: Tile[][];
   furniture: FurniData[];
+  wallItems?: WallItemData[];
   avatars: AvatarData[];
+  pets?: PetData[];
+  bots?: BotData[];
 }
\ No newline at end of file
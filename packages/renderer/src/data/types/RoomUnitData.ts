@@ -0,0 +1,21 @@
+import Phaser from 'phaser';
+
+export type RoomUnitPosture = 'std' | 'sit' | 'lay';
+
+export type RoomUnitType = 'avatar' | 'bot' | 'pet';
+
+export interface RoomUnitState {
+  direction: number;
+  headDirection: number;
+  posture: RoomUnitPosture;
+  isWalking: boolean;
+  walkFrame: number;
+}
+
+export interface RoomUnitVisual {
+  attach(container: Phaser.GameObjects.Container): void;
+  render(state: RoomUnitState): void;
+  update(delta: number): void;
+  getHeight(): number;
+  destroy(): void;
+}
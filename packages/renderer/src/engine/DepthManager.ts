@@ -2,6 +2,33 @@ import { IsometricEngine } from './IsometricEngine';
 import { RoomObjectCategory } from '../data/types/RoomData';
 
 export class DepthManager {
+  private static readonly BASE_DEPTH = 10000;
+  private static readonly LAYER_DEPTH = 1000000;
+  private static readonly ROW_DEPTH = 1000;
+  private static readonly HEIGHT_DEPTH = 10;
+  private static readonly FRONT_LAYER_DEPTH = DepthManager.ROW_DEPTH / 2;
+
+  private static readonly CATEGORY_PRIORITY: Record<RoomObjectCategory, number> = {
+    [RoomObjectCategory.WALL]: 0,
+    [RoomObjectCategory.FLOOR]: 1,
+    [RoomObjectCategory.UNIT]: 2,
+    [RoomObjectCategory.DOOR]: 3
+  };
+
+  public static getDepth(x: number, y: number, z: number, category: RoomObjectCategory): number {
+    const layer = category === RoomObjectCategory.WALL ? 0 : 1;
+
+    return this.BASE_DEPTH +
+      layer * this.LAYER_DEPTH +
+      (x + y) * this.ROW_DEPTH +
+      z * this.HEIGHT_DEPTH +
+      this.CATEGORY_PRIORITY[category];
+  }
+
+  public static getWallDepth(): number {
+    return this.getDepth(-1, -1, 0, RoomObjectCategory.WALL);
+  }
+
   public static updateObjectDepth(
     gameObject: Phaser.GameObjects.GameObject & { setDepth(value: number): any },
     tileX: number,
@@ -9,10 +36,34 @@ export class DepthManager {
     tileZ: number = 0,
     category: RoomObjectCategory = RoomObjectCategory.FLOOR
   ): void {
-    const baseDepth = IsometricEngine.calculateDepth(tileX, tileY, tileZ);
-    const categoryOffset = category * 1000000;
-    const finalDepth = categoryOffset + baseDepth;
-    gameObject.setDepth(finalDepth);
+    gameObject.setDepth(this.getDepth(tileX, tileY, tileZ, category));
+  }
+
+  public static updateFrontLayerDepth(
+    gameObject: Phaser.GameObjects.GameObject & { setDepth(value: number): any },
+    tileX: number,
+    tileY: number,
+    tileZ: number = 0
+  ): void {
+    gameObject.setDepth(this.getDepth(tileX, tileY, tileZ, RoomObjectCategory.FLOOR) + this.FRONT_LAYER_DEPTH);
+  }
+
+  public static updateWallItemDepth(
+    gameObject: Phaser.GameObjects.GameObject & { setDepth(value: number): any },
+    tileX: number,
+    tileY: number,
+    offsetX: number = 0
+  ): void {
+    gameObject.setDepth(this.getDepth(tileX, tileY, 0, RoomObjectCategory.WALL) + 1 + offsetX);
+  }
+
+  public static updateUnitDepth(
+    gameObject: Phaser.GameObjects.GameObject & { setDepth(value: number): any },
+    x: number,
+    y: number,
+    z: number
+  ): void {
+    this.updateObjectDepth(gameObject, x, y, z, RoomObjectCategory.UNIT);
   }
 
   public static sortByDepth<T extends { x: number; y: number; z?: number }>(objects: T[]): T[] {
@@ -22,8 +73,4 @@ export class DepthManager {
       return depthA - depthB;
     });
   }
-
-  public static getCategoryLayerOffset(category: RoomObjectCategory): number {
-    return category * 1000000;
-  }
 }
@@ -0,0 +1,63 @@
+export class RoomClock {
+  public static readonly DEFAULT_TICK_RATE = 24;
+
+  private static tickRate: number = RoomClock.DEFAULT_TICK_RATE;
+
+  private time: number = 0;
+  private timeScale: number = 1;
+  private paused: boolean = false;
+
+  public static setTickRate(tickRate: number): void {
+    if (tickRate <= 0) return;
+
+    RoomClock.tickRate = tickRate;
+  }
+
+  public static getTickRate(): number {
+    return RoomClock.tickRate;
+  }
+
+  public static getTickInterval(): number {
+    return 1000 / RoomClock.tickRate;
+  }
+
+  public advance(delta: number): number {
+    if (this.paused) return 0;
+
+    const scaledDelta = delta * this.timeScale;
+    this.time += scaledDelta;
+
+    return scaledDelta;
+  }
+
+  public step(ticks: number = 1): number {
+    const delta = ticks * RoomClock.getTickInterval();
+    this.time += delta;
+
+    return delta;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  public setTimeScale(timeScale: number): void {
+    this.timeScale = Math.max(0, timeScale);
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+}
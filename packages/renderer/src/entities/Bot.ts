@@ -0,0 +1,51 @@
+import { BotPhraseSchedule, BotRoute } from '../data/types/RoomData';
+import { BotPhraseScheduler } from '../systems/BotPhraseScheduler';
+import { BotRouteBehavior } from '../systems/BotRouteBehavior';
+import { UnitMovementController } from '../systems/UnitMovementController';
+import { HabboAvatarSprite } from './HabboAvatarSprite';
+
+export class Bot extends HabboAvatarSprite {
+  private routeBehavior: BotRouteBehavior | null = null;
+  private phraseScheduler: BotPhraseScheduler | null = null;
+  private onChatCallback?: (message: string) => void;
+
+  public startRoute(route: BotRoute, movement: UnitMovementController): void {
+    if (this.routeBehavior?.getRoute() === route && this.routeBehavior.getMovementController() === movement) {
+      this.routeBehavior.setEnabled(true);
+      return;
+    }
+
+    this.routeBehavior = new BotRouteBehavior(this, movement, route);
+  }
+
+  public stopRoute(): void {
+    this.routeBehavior?.setEnabled(false);
+  }
+
+  public isFollowingRoute(): boolean {
+    return this.routeBehavior?.isEnabled() ?? false;
+  }
+
+  public setPhrases(schedule: BotPhraseSchedule | null): void {
+    this.phraseScheduler = schedule ? new BotPhraseScheduler(schedule) : null;
+    this.phraseScheduler?.onPhrase(message => this.say(message));
+  }
+
+  public say(message: string): void {
+    this.showChatBubble(message);
+
+    if (this.onChatCallback) {
+      this.onChatCallback(message);
+    }
+  }
+
+  public onChat(callback: (message: string) => void): void {
+    this.onChatCallback = callback;
+  }
+
+  public update(time: number, delta: number): void {
+    super.update(time, delta);
+    this.routeBehavior?.update(delta);
+    this.phraseScheduler?.update(delta);
+  }
+}
@@ -0,0 +1,402 @@
+import Phaser from 'phaser';
+import { AvatarGesture } from '../data/types/RoomData';
+import { FigureLayer } from '../data/types/FigureData';
+import { RoomUnitPosture, RoomUnitState, RoomUnitVisual } from '../data/types/RoomUnitData';
+import { AvatarEffectAnimation, AvatarEffectPartFrame } from '../data/types/EffectData';
+import { RoomClock } from '../engine/RoomClock';
+import { AssetManager } from '../managers/AssetManager';
+import { BakedFigurePose, FigureCache } from '../managers/FigureCache';
+import { AvatarAnimationSequence } from '../data/types/AvatarAnimationData';
+import { AvatarEffectComposer } from '../systems/AvatarEffectComposer';
+import { AvatarAnimationSequencer } from '../systems/AvatarAnimationSequencer';
+import { FigureComposer } from '../systems/FigureComposer';
+
+interface GestureDefinition {
+  action: string;
+  parts: string[];
+  duration: number;
+}
+
+export class FigureVisual implements RoomUnitVisual {
+  private static readonly GESTURE_FRAME_TICKS = 5;
+  private static readonly FIGURE_OFFSET_X = -35;
+  private static readonly FLIPPED_FIGURE_OFFSET_X = 30;
+
+  private static readonly POSTURE_HEIGHTS: Record<RoomUnitPosture, number> = {
+    std: 110,
+    sit: 85,
+    lay: 50
+  };
+
+  private static readonly GESTURES: Record<AvatarGesture, GestureDefinition> = {
+    wave: { action: 'wav', parts: ['lh', 'ls', 'lc'], duration: 2000 },
+    respect: { action: 'respect', parts: ['lh', 'ls', 'lc'], duration: 2000 },
+    blow: { action: 'blw', parts: ['rh', 'rs', 'rc'], duration: 1500 },
+    laugh: { action: 'lsp', parts: FigureComposer.HEAD_PARTS, duration: 2000 }
+  };
+
+  private scene: Phaser.Scene;
+  private assetManager = AssetManager.getInstance();
+  private figureCache = FigureCache.getInstance();
+  private figureContainer: Phaser.GameObjects.Container;
+  private bakedImage: Phaser.GameObjects.Image;
+  private state: RoomUnitState | null = null;
+
+  private figure: string = '';
+  private layers: FigureLayer[] = [];
+  private layerImages: Map<string, Phaser.GameObjects.Image> = new Map();
+
+  private gesture: AvatarGesture | null = null;
+  private gestureRemaining: number = 0;
+  private gestureElapsed: number = 0;
+  private gestureFrame: number = 0;
+
+  private sequencer: AvatarAnimationSequencer | null = null;
+
+  private effectId: number | null = null;
+  private effectLibrary: string | null = null;
+  private effect: AvatarEffectAnimation | null = null;
+  private effectImages: Map<string, Phaser.GameObjects.Image> = new Map();
+  private effectElapsed: number = 0;
+  private effectFrame: number = 0;
+
+  constructor(scene: Phaser.Scene, figure: string) {
+    this.scene = scene;
+    this.bakedImage = scene.add.image(0, 0, '__DEFAULT');
+    this.bakedImage.setOrigin(0, 0);
+    this.bakedImage.setVisible(false);
+    this.figureContainer = scene.add.container(0, 0, [this.bakedImage]);
+    this.setFigure(figure);
+  }
+
+  public attach(container: Phaser.GameObjects.Container): void {
+    container.add(this.figureContainer);
+  }
+
+  public setFigure(figure: string): void {
+    if (figure === this.figure) return;
+
+    if (this.figure) {
+      this.figureCache.removeReference(this.figure);
+    }
+
+    this.figure = figure;
+    this.figureCache.addReference(figure);
+    this.rebuildLayers();
+    this.redraw();
+
+    FigureComposer.loadLibraries(this.scene, figure).then(() => {
+      if (this.figure !== figure || !this.figureContainer.scene) return;
+
+      this.redraw();
+    });
+  }
+
+  public getFigure(): string {
+    return this.figure;
+  }
+
+  private rebuildLayers(): void {
+    this.layerImages.forEach(image => image.destroy());
+    this.layerImages.clear();
+
+    this.layers = FigureComposer.resolveLayers(this.figure);
+
+    for (const layer of this.layers) {
+      const image = this.scene.add.image(0, 0, '__DEFAULT');
+      image.setOrigin(0, 0);
+      image.setVisible(false);
+      this.layerImages.set(this.getLayerKey(layer), image);
+    }
+  }
+
+  private getLayerKey(layer: FigureLayer): string {
+    return `${layer.library}_${layer.type}_${layer.id}`;
+  }
+
+  public render(state: RoomUnitState): void {
+    this.state = state;
+    this.redraw();
+  }
+
+  private redraw(): void {
+    if (!this.state) return;
+
+    const poseKey = this.effect ? null : this.getPoseKey();
+    const bakedPose = poseKey ? this.figureCache.getPose(this.figure, poseKey) : null;
+
+    if (bakedPose) {
+      this.showBakedPose(bakedPose);
+      return;
+    }
+
+    const { direction, headDirection, posture, isWalking, walkFrame } = this.state;
+    const bodyAction = isWalking ? 'wlk' : posture;
+    const headAction = posture === 'lay' ? 'lay' : 'std';
+    const gesture = this.gesture ? FigureVisual.GESTURES[this.gesture] : null;
+    const effectFrame = this.effect ? AvatarEffectComposer.getFrame(this.effect, this.effectFrame) : null;
+    const removed = new Set(this.effect?.remove || []);
+    const overrides = new Map<string, AvatarEffectPartFrame>(
+      (effectFrame?.parts || []).map(part => [part.type, part])
+    );
+    const ordered: Phaser.GameObjects.Image[] = [];
+    const behind: Phaser.GameObjects.Image[] = [];
+    const front: Phaser.GameObjects.Image[] = [];
+    let complete = true;
+
+    for (const layer of FigureComposer.sortLayers(this.layers, direction)) {
+      const image = this.layerImages.get(this.getLayerKey(layer));
+      if (!image) continue;
+
+      if (removed.has(layer.type)) {
+        image.setVisible(false);
+        continue;
+      }
+
+      const isHead = FigureComposer.HEAD_PARTS.includes(layer.type);
+      const layerDirection = isHead ? headDirection : direction;
+
+      let action = isHead ? headAction : bodyAction;
+      let frame = (isHead || !isWalking) ? 0 : walkFrame;
+      let dx = 0;
+      let dy = 0;
+
+      const animationFrame = this.sequencer?.getPartFrame(layer.type);
+
+      if (animationFrame) {
+        action = animationFrame.action;
+        frame = animationFrame.frame ?? 0;
+        dx = animationFrame.dx || 0;
+        dy = animationFrame.dy || 0;
+      }
+
+      if (gesture && gesture.parts.includes(layer.type)) {
+        action = gesture.action;
+        frame = this.gestureFrame;
+      }
+
+      const override = overrides.get(layer.type);
+
+      if (override) {
+        action = override.action || action;
+        frame = override.frame ?? frame;
+        dx += override.dx || 0;
+        dy += override.dy || 0;
+      }
+
+      const flipped = FigureComposer.getSourceDirection(layerDirection).flipped;
+
+      const applied = FigureComposer.applyLayer(this.scene, image, layer, action, layerDirection, frame);
+
+      complete = complete && applied;
+      image.setVisible(applied);
+      this.offsetImage(image, flipped, dx, dy);
+      ordered.push(image);
+    }
+
+    if (this.effect && this.effectLibrary) {
+      const spriteFrames = new Map((effectFrame?.sprites || []).map(sprite => [sprite.id, sprite]));
+
+      for (const sprite of this.effect.sprites || []) {
+        const image = this.effectImages.get(sprite.id);
+        if (!image) continue;
+
+        const spriteFrame = spriteFrames.get(sprite.id);
+        const flipped = sprite.directional === true && FigureComposer.getSourceDirection(direction).flipped;
+
+        image.setVisible(AvatarEffectComposer.applySprite(
+          this.scene,
+          image,
+          this.effectLibrary,
+          sprite,
+          direction,
+          spriteFrame?.frame ?? 0
+        ));
+        this.offsetImage(image, flipped, spriteFrame?.dx, spriteFrame?.dy);
+
+        (sprite.order === 'behind' ? behind : front).push(image);
+      }
+    }
+
+    this.bakedImage.setVisible(false);
+    this.figureContainer.removeAll(false);
+    this.figureContainer.add([this.bakedImage, ...behind, ...ordered, ...front]);
+
+    if (poseKey && complete) {
+      const pose = this.figureCache.bake(this.scene, this.figure, poseKey, ordered);
+
+      if (pose) {
+        this.showBakedPose(pose);
+      }
+    }
+  }
+
+  private getPoseKey(): string {
+    const { direction, headDirection, posture, isWalking, walkFrame } = this.state!;
+
+    return [
+      direction,
+      headDirection,
+      isWalking ? `wlk${walkFrame}` : posture,
+      this.gesture ? `${this.gesture}${this.gestureFrame}` : '',
+      this.sequencer ? `${this.sequencer.getSequenceId()}:${this.sequencer.getFrameIndex()}` : ''
+    ].join('|');
+  }
+
+  private showBakedPose(pose: BakedFigurePose): void {
+    this.layerImages.forEach(image => image.setVisible(false));
+
+    this.bakedImage.setTexture(pose.textureKey);
+    this.bakedImage.setPosition(pose.offsetX, pose.offsetY);
+    this.bakedImage.setVisible(true);
+  }
+
+  private offsetImage(image: Phaser.GameObjects.Image, flipped: boolean, dx: number = 0, dy: number = 0): void {
+    image.x += (flipped ? FigureVisual.FLIPPED_FIGURE_OFFSET_X : FigureVisual.FIGURE_OFFSET_X) + (flipped ? -dx : dx);
+    image.y += dy;
+  }
+
+  public playAnimation(sequence: AvatarAnimationSequence | null): void {
+    if (sequence?.id === this.sequencer?.getSequenceId()) return;
+
+    this.sequencer = sequence ? new AvatarAnimationSequencer(sequence) : null;
+    this.redraw();
+  }
+
+  public getAnimation(): string | null {
+    return this.sequencer?.getSequenceId() || null;
+  }
+
+  public setEffect(effectId: number | null): void {
+    if (effectId === this.effectId) return;
+
+    this.clearEffect();
+    this.effectId = effectId;
+
+    if (effectId === null) {
+      this.redraw();
+      return;
+    }
+
+    AvatarEffectComposer.loadEffect(this.scene, effectId)
+      .then(effect => {
+        if (this.effectId !== effectId || !effect || !this.figureContainer.scene) return;
+
+        this.applyEffect(effect.library);
+      })
+      .catch(error => {
+        console.error(`[FigureVisual] Failed to load effect: ${effectId}`, error);
+      });
+  }
+
+  public getEffect(): number | null {
+    return this.effectId;
+  }
+
+  private applyEffect(library: string): void {
+    const animation = AvatarEffectComposer.getAnimation(library);
+    if (!animation) return;
+
+    this.assetManager.addReference('effect', library);
+
+    this.effectLibrary = library;
+    this.effect = animation;
+    this.effectElapsed = 0;
+    this.effectFrame = 0;
+
+    for (const sprite of animation.sprites || []) {
+      const image = this.scene.add.image(0, 0, '__DEFAULT');
+      image.setOrigin(0, 0);
+      image.setVisible(false);
+      this.effectImages.set(sprite.id, image);
+    }
+
+    this.redraw();
+  }
+
+  private clearEffect(): void {
+    if (this.effectLibrary) {
+      this.assetManager.removeReference('effect', this.effectLibrary);
+    }
+
+    this.effectImages.forEach(image => image.destroy());
+    this.effectImages.clear();
+
+    this.effectLibrary = null;
+    this.effect = null;
+    this.effectElapsed = 0;
+    this.effectFrame = 0;
+  }
+
+  public playGesture(gesture: AvatarGesture, duration?: number): void {
+    this.gesture = gesture;
+    this.gestureRemaining = duration ?? FigureVisual.GESTURES[gesture].duration;
+    this.gestureElapsed = 0;
+    this.gestureFrame = 0;
+    this.redraw();
+  }
+
+  public stopGesture(): void {
+    if (this.gesture === null) return;
+
+    this.gesture = null;
+    this.gestureRemaining = 0;
+    this.gestureFrame = 0;
+    this.redraw();
+  }
+
+  public getGesture(): AvatarGesture | null {
+    return this.gesture;
+  }
+
+  public update(delta: number): void {
+    this.updateEffect(delta);
+
+    if (this.sequencer?.update(delta)) {
+      this.redraw();
+    }
+
+    if (this.gesture === null) return;
+
+    this.gestureRemaining -= delta;
+    if (this.gestureRemaining <= 0) {
+      this.stopGesture();
+      return;
+    }
+
+    this.gestureElapsed += delta;
+
+    const interval = RoomClock.getTickInterval() * FigureVisual.GESTURE_FRAME_TICKS;
+
+    if (this.gestureElapsed >= interval) {
+      this.gestureElapsed %= interval;
+      this.gestureFrame = (this.gestureFrame + 1) % 2;
+      this.redraw();
+    }
+  }
+
+  private updateEffect(delta: number): void {
+    if (!this.effect || this.effect.frames.length <= 1) return;
+
+    const interval = this.effect.frameInterval || AvatarEffectComposer.DEFAULT_FRAME_INTERVAL;
+
+    this.effectElapsed += delta;
+    if (this.effectElapsed < interval) return;
+
+    this.effectFrame = (this.effectFrame + Math.floor(this.effectElapsed / interval)) % this.effect.frames.length;
+    this.effectElapsed %= interval;
+    this.redraw();
+  }
+
+  public getHeight(): number {
+    return FigureVisual.POSTURE_HEIGHTS[this.state?.posture || 'std'];
+  }
+
+  public destroy(): void {
+    this.clearEffect();
+    this.figureCache.removeReference(this.figure);
+    this.layerImages.forEach(image => image.destroy());
+    this.layerImages.clear();
+    this.figureContainer.destroy();
+  }
+}
@@ -0,0 +1,277 @@
+import Phaser from 'phaser';
+import { FurniData, RoomObjectCategory } from '../data/types/RoomData';
+import { FurnitureAnimationFrame } from '../data/types/FurnitureData';
+import { IsometricEngine } from '../engine/IsometricEngine';
+import { DepthManager } from '../engine/DepthManager';
+import { FurnitureVisualizer } from '../systems/FurnitureVisualizer';
+import { AssetLoader } from '../systems/AssetLoader';
+import { FurnitureAnimator } from '../systems/FurnitureAnimator';
+
+export class Furniture {
+  private static readonly HIT_ALPHA_THRESHOLD = 10;
+
+  private scene: Phaser.Scene;
+  public container: Phaser.GameObjects.Container;
+  private frontContainer: Phaser.GameObjects.Container;
+
+  private data: FurniData;
+  private className: string;
+  private size: number;
+  private visualization: Phaser.GameObjects.Container | null = null;
+  private frontVisualization: Phaser.GameObjects.Container | null = null;
+  private animator: FurnitureAnimator | null = null;
+  private layerCount: number = 0;
+
+  constructor(scene: Phaser.Scene, data: FurniData, className: string, size: number = 64) {
+    this.scene = scene;
+    this.data = data;
+    this.className = className;
+    this.size = size;
+
+    this.container = scene.add.container(0, 0);
+    this.frontContainer = scene.add.container(0, 0);
+
+    this.updateScreenPosition();
+    this.updateDepth();
+  }
+
+  public render(): void {
+    this.container.removeAll(true);
+    this.frontContainer.removeAll(true);
+
+    const metadata = AssetLoader.getMetadata('furniture', this.className);
+    const visualizationData = metadata ? FurnitureVisualizer.getVisualization(metadata, this.size) : null;
+
+    this.layerCount = visualizationData?.layerCount || 0;
+
+    if (!FurnitureAnimator.hasAnimations(visualizationData?.animations)) {
+      this.animator = null;
+    } else if (!this.animator) {
+      this.animator = new FurnitureAnimator(visualizationData!.animations!, this.data.state);
+    }
+
+    this.visualization = FurnitureVisualizer.createVisualization(
+      this.scene,
+      this.className,
+      this.data.direction,
+      this.size,
+      this.getLayerFrames()
+    );
+
+    this.frontVisualization = null;
+
+    if (this.visualization) {
+      this.container.add(this.visualization);
+      this.frontVisualization = FurnitureVisualizer.splitFrontLayers(this.scene, this.visualization);
+    }
+
+    if (this.frontVisualization) {
+      this.frontContainer.add(this.frontVisualization);
+    }
+  }
+
+  public update(delta: number): void {
+    if (!this.animator || !this.visualization) return;
+
+    if (this.animator.update(delta)) {
+      this.refreshFrames();
+    }
+  }
+
+  public getState(): number {
+    return this.data.state;
+  }
+
+  public setState(state: number): void {
+    this.data.state = state;
+
+    if (this.animator) {
+      this.animator.setState(state);
+      this.refreshFrames();
+    }
+  }
+
+  public getStateCount(): number {
+    return this.animator ? this.animator.getStateCount() : 1;
+  }
+
+  public getNextState(): number {
+    return (this.data.state + 1) % this.getStateCount();
+  }
+
+  private getLayerFrames(): FurnitureAnimationFrame[] {
+    return this.animator ? this.animator.getLayerFrames(this.layerCount) : [];
+  }
+
+  private refreshFrames(): void {
+    const frames = this.getLayerFrames();
+
+    for (const visualization of this.getVisualizations()) {
+      FurnitureVisualizer.updateVisualization(
+        this.scene,
+        visualization,
+        this.className,
+        this.data.direction,
+        this.size,
+        frames
+      );
+    }
+  }
+
+  private getVisualizations(): Phaser.GameObjects.Container[] {
+    return [this.frontVisualization, this.visualization].filter(
+      (visualization): visualization is Phaser.GameObjects.Container => visualization !== null
+    );
+  }
+
+  public hitTest(worldX: number, worldY: number): boolean {
+    if (!this.visualization || !this.container.visible) return false;
+
+    for (const visualization of this.getVisualizations()) {
+      const layers = visualization.list as Phaser.GameObjects.Image[];
+
+      for (let i = layers.length - 1; i >= 0; i--) {
+        const image = layers[i];
+        if (image.getData('layer') === undefined || image.getData('ignoreMouse') || !image.visible) continue;
+
+        let localX = Math.floor(worldX - this.container.x - visualization.x - image.x);
+        let localY = Math.floor(worldY - this.container.y - visualization.y - image.y);
+
+        if (localX < 0 || localY < 0 || localX >= image.width || localY >= image.height) continue;
+
+        if (image.flipX) localX = image.width - 1 - localX;
+        if (image.flipY) localY = image.height - 1 - localY;
+
+        const alpha = this.scene.textures.getPixelAlpha(localX, localY, image.texture.key, image.frame.name);
+
+        if (alpha !== null && alpha >= Furniture.HIT_ALPHA_THRESHOLD) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  public setTint(color: number | null): void {
+    for (const visualization of this.getVisualizations()) {
+      visualization.each((child: Phaser.GameObjects.Image) => {
+        if (child.getData('layer') === undefined) return;
+
+        if (color === null) {
+          child.clearTint();
+        } else {
+          child.setTint(color);
+        }
+      });
+    }
+  }
+
+  public setAlpha(alpha: number): void {
+    this.container.setAlpha(alpha);
+    this.frontContainer.setAlpha(alpha);
+  }
+
+  public setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+    this.frontContainer.setVisible(visible);
+  }
+
+  public getDirection(): number {
+    return this.data.direction;
+  }
+
+  public getValidDirections(): number[] {
+    const metadata = AssetLoader.getMetadata('furniture', this.className);
+    if (!metadata) return [this.data.direction];
+
+    return AssetLoader.getValidDirections(metadata);
+  }
+
+  public setDirection(direction: number): boolean {
+    if (!this.getValidDirections().includes(direction)) {
+      return false;
+    }
+
+    if (direction === this.data.direction) {
+      return true;
+    }
+
+    if (this.isQuarterTurn(this.data.direction, direction)) {
+      const width = this.data.width;
+      this.data.width = this.data.length;
+      this.data.length = width;
+    }
+
+    this.data.direction = direction;
+
+    if (this.isRendered()) {
+      this.render();
+    }
+
+    return true;
+  }
+
+  public rotate(): number {
+    const directions = this.getValidDirections();
+    const next = directions.find(direction => direction > this.data.direction);
+
+    this.setDirection(next !== undefined ? next : directions[0]);
+
+    return this.data.direction;
+  }
+
+  private isQuarterTurn(from: number, to: number): boolean {
+    return Math.floor(from / 2) % 2 !== Math.floor(to / 2) % 2;
+  }
+
+  public setPosition(x: number, y: number, z: number): void {
+    this.data.position.set(x, y, z);
+    this.updateScreenPosition();
+    this.updateDepth();
+  }
+
+  private updateScreenPosition(): void {
+    const { x, y, z } = this.data.position;
+    const screenPos = IsometricEngine.tileToScreen(x, y, z);
+
+    this.container.setPosition(screenPos.x + IsometricEngine.HALF_TILE_WIDTH, screenPos.y);
+    this.frontContainer.setPosition(this.container.x, this.container.y);
+  }
+
+  private updateDepth(): void {
+    const { x, y, z } = this.data.position;
+
+    DepthManager.updateObjectDepth(this.container, x, y, z, RoomObjectCategory.FLOOR);
+    DepthManager.updateFrontLayerDepth(this.frontContainer, x, y, z);
+  }
+
+  public getId(): number {
+    return this.data.id;
+  }
+
+  public getData(): FurniData {
+    return this.data;
+  }
+
+  public getClassName(): string {
+    return this.className;
+  }
+
+  public getLogicType(): string | null {
+    return AssetLoader.getMetadata('furniture', this.className)?.logicType || null;
+  }
+
+  public getLogic(): Record<string, any> | null {
+    return AssetLoader.getMetadata('furniture', this.className)?.logic || null;
+  }
+
+  public isRendered(): boolean {
+    return this.visualization !== null;
+  }
+
+  public destroy(): void {
+    this.container.destroy();
+    this.frontContainer.destroy();
+  }
+}
@@ -1,32 +1,16 @@
 import Phaser from 'phaser';
+import { DEFAULT_AVATAR_FIGURE } from '../data/types/FigureData';
+import { AvatarGesture } from '../data/types/RoomData';
+import { RoomUnitPosture } from '../data/types/RoomUnitData';
 import { Vector3 } from '../data/types/Vector3';
-import { IsometricEngine } from '../engine/IsometricEngine';
+import { AvatarAnimationRegistry } from '../managers/AvatarAnimationRegistry';
+import { FigureVisual } from './FigureVisual';
+import { RoomUnit } from './RoomUnit';
 
-export class HabboAvatarSprite {
-  private scene: Phaser.Scene;
-  public container: Phaser.GameObjects.Container;
-  private bodySprite!: Phaser.GameObjects.Sprite;
-  private headSprite!: Phaser.GameObjects.Sprite;
-  private leftHandSprite!: Phaser.GameObjects.Sprite;
-  private rightHandSprite!: Phaser.GameObjects.Sprite;
+export class HabboAvatarSprite extends RoomUnit<FigureVisual> {
+  public static readonly DANCE_STYLES = [1, 2, 3, 4];
 
-  private position: Vector3;
-  private direction: number = 2;
-  private isWalking: boolean = false;
-
-  private currentPath: Vector3[] = [];
-  private currentTarget: Vector3 | null = null;
-
-  private moveStartTime: number = 0;
-  private moveDuration: number = 500;
-  private moveStartPos: Vector3 = new Vector3(0, 0, 0);
-
-  private frameCounter: number = 0;
-  private frameUpdateCounter: number = 0;
-  private frameUpdateInterval: number = 3;
-
-  private username: string;
-  private id: number;
+  private dance: number = 0;
 
   constructor(
     scene: Phaser.Scene,
@@ -34,250 +18,76 @@ export class HabboAvatarSprite {
     username: string,
     startX: number,
     startY: number,
-    startZ: number = 0
+    startZ: number = 0,
+    figure: string = DEFAULT_AVATAR_FIGURE
   ) {
-    this.scene = scene;
-    this.id = id;
-    this.username = username;
-    this.position = new Vector3(startX, startY, startZ);
-
-    this.container = scene.add.container(0, 0);
-
-    this.createBodySprite();
-
-    this.container.add([this.bodySprite, this.leftHandSprite, this.rightHandSprite, this.headSprite]);
-
-    this.updateScreenPosition();
-    this.updateSprite();
+    super(scene, id, username, startX, startY, startZ, new FigureVisual(scene, figure));
   }
 
-  private createBodySprite(): void {
-    this.bodySprite = this.scene.add.sprite(0, 0, 'avatar_body');
-    this.bodySprite.setOrigin(0, 0);
-
-    this.leftHandSprite = this.scene.add.sprite(0, 0, 'avatar_body');
-    this.leftHandSprite.setOrigin(0, 0);
-
-    this.rightHandSprite = this.scene.add.sprite(0, 0, 'avatar_body');
-    this.rightHandSprite.setOrigin(0, 0);
-
-    this.headSprite = this.scene.add.sprite(0, 0, 'avatar_body');
-    this.headSprite.setOrigin(0, 0);
+  public setFigure(figure: string): void {
+    this.visual.setFigure(figure);
   }
 
-  private updateSprite(): void {
-    let actualDirection = this.direction;
-    let flipped = false;
-
-    if (this.direction === 4) {
-      actualDirection = 2;
-      flipped = true;
-    } else if (this.direction === 5) {
-      actualDirection = 1;
-      flipped = true;
-    } else if (this.direction === 6) {
-      actualDirection = 0;
-      flipped = true;
-    }
-
-    const meta = this.scene.cache.json.get('figure_hh_human_body_meta');
-    const assets = meta?.assets || {};
-
-    const parts = ['bd', 'lh', 'rh', 'hd'];
-    const sprites = [this.bodySprite, this.leftHandSprite, this.rightHandSprite, this.headSprite];
-
-    parts.forEach((part, index) => {
-      const action = (part === 'hd') ? 'std' : (this.isWalking ? 'wlk' : 'std');
-      const frame = (part === 'hd' || !this.isWalking) ? 0 : this.frameCounter;
-      const frameName = `h_${action}_${part}_1_${actualDirection}_${frame}`;
-      const sprite = sprites[index];
-
-      try {
-        if (sprite.texture.has(frameName)) {
-          sprite.setFrame(frameName);
-          sprite.setFlipX(flipped);
-          sprite.setVisible(true);
-
-          const assetKey = frameName;
-          const assetData = assets[assetKey];
-
-          if (assetData) {
-            const frameData = sprite.frame;
-
-            let offsetX = -assetData.x;
-            let offsetY = -assetData.y;
-
-            if (flipped) {
-              offsetX = -(offsetX + frameData.width);
-            }
-
-            sprite.setPosition(offsetX, offsetY);
-          } else {
-            sprite.setPosition(0, 0);
-          }
-        } else {
-          sprite.setVisible(false);
-        }
-      } catch (e) {
-        sprite.setVisible(false);
-      }
-    });
+  public getFigure(): string {
+    return this.visual.getFigure();
   }
 
-  public walkTo(path: Vector3[]): void {
-    if (path.length === 0) return;
-
-    if (this.isWalking) {
-      this.position.set(
-        Math.round(this.position.x),
-        Math.round(this.position.y),
-        this.position.z
-      );
-    }
-
-    this.currentPath = path.map(p => new Vector3(p.x, p.y, p.z));
-    this.currentTarget = this.currentPath.shift() || null;
-
-    if (this.currentTarget) {
-      this.isWalking = true;
-      this.frameCounter = 0;
-      this.frameUpdateCounter = 0;
-
-      const dir = this.calculateDirection(this.position, this.currentTarget);
-      this.setDirection(dir);
-
-      this.moveStartTime = Date.now();
-      this.moveStartPos = this.position.clone();
-    }
+  public playGesture(gesture: AvatarGesture, duration?: number): void {
+    this.visual.playGesture(gesture, duration);
   }
 
-  public stop(): void {
-    this.isWalking = false;
-    this.currentPath = [];
-    this.currentTarget = null;
-    this.frameCounter = 0;
-    this.frameUpdateCounter = 0;
-    this.updateSprite();
+  public stopGesture(): void {
+    this.visual.stopGesture();
   }
 
-  public update(_time: number, _delta: number): void {
-    if (!this.isWalking || !this.currentTarget) return;
-
-    const now = Date.now();
-    const elapsed = now - this.moveStartTime;
-    const progress = Math.min(elapsed / this.moveDuration, 1);
-
-    if (progress >= 1) {
-      this.position.set(
-        this.currentTarget.x,
-        this.currentTarget.y,
-        this.currentTarget.z
-      );
-
-      if (this.currentPath.length > 0) {
-        this.currentTarget = this.currentPath.shift()!;
-        const dir = this.calculateDirection(this.position, this.currentTarget);
-        this.setDirection(dir);
-
-        this.moveStartTime = now;
-        this.moveStartPos = this.position.clone();
-        this.frameCounter = 0;
-        this.frameUpdateCounter = 0;
-      } else {
-        this.stop();
-      }
-    } else {
-      this.position.x = this.moveStartPos.x + (this.currentTarget.x - this.moveStartPos.x) * progress;
-      this.position.y = this.moveStartPos.y + (this.currentTarget.y - this.moveStartPos.y) * progress;
-      this.position.z = this.moveStartPos.z + (this.currentTarget.z - this.moveStartPos.z) * progress;
-
-      this.frameUpdateCounter++;
-      if (this.frameUpdateCounter >= this.frameUpdateInterval) {
-        this.frameUpdateCounter = 0;
-        this.frameCounter = (this.frameCounter + 1) % 4;
-        this.updateSprite();
-      }
-    }
-
-    this.updateScreenPosition();
+  public getGesture(): AvatarGesture | null {
+    return this.visual.getGesture();
   }
 
-  private calculateDirection(from: Vector3, to: Vector3): number {
-    const dx = to.x - from.x;
-    const dy = to.y - from.y;
-
-    if (dx === 0 && dy < 0) return 0;
-    if (dx > 0 && dy < 0) return 1;
-    if (dx > 0 && dy === 0) return 2;
-    if (dx > 0 && dy > 0) return 3;
-    if (dx === 0 && dy > 0) return 4;
-    if (dx < 0 && dy > 0) return 5;
-    if (dx < 0 && dy === 0) return 6;
-    if (dx < 0 && dy < 0) return 7;
-
-    return this.direction;
+  public setEffect(effectId: number | null): void {
+    this.visual.setEffect(effectId);
   }
 
-  private setDirection(newDirection: number): void {
-    if (this.direction !== newDirection) {
-      this.direction = newDirection;
-      this.updateSprite();
-    }
+  public getEffect(): number | null {
+    return this.visual.getEffect();
   }
 
-  private updateScreenPosition(): void {
-    const baseTileCorner = IsometricEngine.tileToScreen(
-      Math.floor(this.position.x),
-      Math.floor(this.position.y),
-      this.position.z
-    );
-
-    const fracX = this.position.x - Math.floor(this.position.x);
-    const fracY = this.position.y - Math.floor(this.position.y);
-
-    const screenPos = {
-      x: baseTileCorner.x + 32 + (fracX - fracY) * 32,
-      y: baseTileCorner.y + (fracX + fracY) * 16
-    };
-
-    const isFlipped = (this.direction === 4 || this.direction === 5 || this.direction === 6);
-    const MANUAL_OFFSET_X = isFlipped ? 30 : -35;
-    const MANUAL_OFFSET_Y = 0;
+  public setDance(style: number): boolean {
+    if (style === 0) {
+      this.dance = 0;
+      this.visual.playAnimation(null);
+      return true;
+    }
 
-    const containerX = screenPos.x + MANUAL_OFFSET_X;
-    const containerY = screenPos.y + MANUAL_OFFSET_Y;
+    const sequence = AvatarAnimationRegistry.getInstance().getSequence(`dance.${style}`);
+    if (!sequence || this.isMoving() || this.getPosture() !== 'std') return false;
 
-    this.container.setPosition(containerX, containerY);
+    this.dance = style;
+    this.visual.playAnimation(sequence);
+    return true;
   }
 
-  public getPosition(): Vector3 {
-    return this.position;
+  public getDance(): number {
+    return this.dance;
   }
 
-  public getTilePosition(): { x: number; y: number } {
-    return {
-      x: Math.floor(this.position.x),
-      y: Math.floor(this.position.y)
-    };
-  }
+  public walkTo(path: Vector3[]): void {
+    if (path.length > 0 && this.dance !== 0) {
+      this.setDance(0);
+    }
 
-  public setDepth(depth: number): void {
-    this.container.setDepth(depth);
+    super.walkTo(path);
   }
 
-  public isMoving(): boolean {
-    return this.isWalking;
-  }
+  public setPosture(posture: RoomUnitPosture, direction?: number, z?: number): void {
+    if (posture !== 'std' && this.dance !== 0) {
+      this.setDance(0);
+    }
 
-  public getId(): number {
-    return this.id;
+    super.setPosture(posture, direction, z);
   }
 
   public getUsername(): string {
-    return this.username;
-  }
-
-  public destroy(): void {
-    this.container.destroy();
+    return this.getName();
   }
 }
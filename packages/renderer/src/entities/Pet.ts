@@ -0,0 +1,93 @@
+import Phaser from 'phaser';
+import { DEFAULT_PET_FIGURE } from '../data/types/PetData';
+import { PetPosture } from '../data/types/RoomData';
+import { RoomUnitPosture } from '../data/types/RoomUnitData';
+import { Vector3 } from '../data/types/Vector3';
+import { UnitMovementController } from '../systems/UnitMovementController';
+import { WanderBehavior, WanderOptions } from '../systems/WanderBehavior';
+import { PetVisual } from './PetVisual';
+import { RoomUnit } from './RoomUnit';
+
+export class Pet extends RoomUnit<PetVisual> {
+  private static readonly REST_POSTURES: PetPosture[] = ['sit', 'lay'];
+
+  private petPosture: PetPosture = 'std';
+  private wanderBehavior: WanderBehavior | null = null;
+
+  constructor(
+    scene: Phaser.Scene,
+    id: number,
+    name: string,
+    startX: number,
+    startY: number,
+    startZ: number = 0,
+    figure: string = DEFAULT_PET_FIGURE
+  ) {
+    super(scene, id, name, startX, startY, startZ, new PetVisual(scene, figure));
+  }
+
+  public setFigure(figure: string): void {
+    this.visual.setFigure(figure);
+  }
+
+  public getFigure(): string {
+    return this.visual.getFigure();
+  }
+
+  public setPetPosture(posture: PetPosture, direction?: number): void {
+    if (posture !== 'beg') {
+      this.setPosture(posture, direction);
+      return;
+    }
+
+    this.petPosture = posture;
+    this.visual.setPosture(posture);
+    super.setPosture('std', direction);
+  }
+
+  public getPetPosture(): PetPosture {
+    return this.petPosture;
+  }
+
+  public setPosture(posture: RoomUnitPosture, direction?: number, z?: number): void {
+    this.petPosture = posture;
+    this.visual.setPosture(posture);
+    super.setPosture(posture, direction, z);
+  }
+
+  public walkTo(path: Vector3[]): void {
+    if (path.length > 0) {
+      this.petPosture = 'std';
+      this.visual.setPosture('std');
+    }
+
+    super.walkTo(path);
+  }
+
+  public startWandering(movement: UnitMovementController, options?: WanderOptions): void {
+    if (this.wanderBehavior?.getMovementController() === movement) {
+      this.wanderBehavior.setEnabled(true);
+      return;
+    }
+
+    this.wanderBehavior = new WanderBehavior(this, movement, options);
+    this.wanderBehavior.onRest(random => {
+      const posture = Pet.REST_POSTURES[Math.floor(random() * Pet.REST_POSTURES.length)];
+
+      this.setPetPosture(this.petPosture === posture ? 'std' : posture);
+    });
+  }
+
+  public stopWandering(): void {
+    this.wanderBehavior?.setEnabled(false);
+  }
+
+  public isWandering(): boolean {
+    return this.wanderBehavior?.isEnabled() ?? false;
+  }
+
+  public update(time: number, delta: number): void {
+    super.update(time, delta);
+    this.wanderBehavior?.update(delta);
+  }
+}
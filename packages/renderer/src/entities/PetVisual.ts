@@ -0,0 +1,208 @@
+import Phaser from 'phaser';
+import { PetPosture } from '../data/types/RoomData';
+import { PetFigure } from '../data/types/PetData';
+import { RoomUnitState, RoomUnitVisual } from '../data/types/RoomUnitData';
+import { AssetManager } from '../managers/AssetManager';
+import { PetTypeRegistry } from '../managers/PetTypeRegistry';
+import { AssetLoader } from '../systems/AssetLoader';
+import { FigureComposer } from '../systems/FigureComposer';
+import { FurnitureVisualizer } from '../systems/FurnitureVisualizer';
+import { PetFigureParser } from '../systems/PetFigureParser';
+import { PlaceholderVisual } from './PlaceholderVisual';
+
+export class PetVisual implements RoomUnitVisual {
+  private static readonly SIZE = 64;
+
+  private static readonly POSTURE_HEIGHTS: Record<PetPosture, number> = {
+    std: 45,
+    sit: 40,
+    lay: 25,
+    beg: 55
+  };
+
+  private scene: Phaser.Scene;
+  private assetManager = AssetManager.getInstance();
+  private petContainer: Phaser.GameObjects.Container;
+  private layerImages: Phaser.GameObjects.Image[] = [];
+  private placeholder: PlaceholderVisual | null = null;
+  private state: RoomUnitState | null = null;
+
+  private figure: string = '';
+  private petFigure: PetFigure | null = null;
+  private library: string | null = null;
+  private posture: PetPosture = 'std';
+
+  constructor(scene: Phaser.Scene, figure: string) {
+    this.scene = scene;
+    this.petContainer = scene.add.container(0, 0);
+    this.setFigure(figure);
+  }
+
+  public attach(container: Phaser.GameObjects.Container): void {
+    container.add(this.petContainer);
+  }
+
+  public setFigure(figure: string): void {
+    if (figure === this.figure) return;
+
+    this.releaseLibrary();
+    this.figure = figure;
+    this.petFigure = PetFigureParser.parse(figure);
+
+    const type = this.petFigure ? PetTypeRegistry.getInstance().getType(this.petFigure.typeId) : null;
+
+    if (!type) {
+      console.warn(`[PetVisual] Unknown pet figure: ${figure}`);
+      this.showPlaceholder();
+      return;
+    }
+
+    AssetLoader.loadPet(this.scene, type.library, true)
+      .then(() => {
+        if (this.figure !== figure || !this.petContainer.scene) return;
+
+        this.assetManager.addReference('pet', type.library);
+        this.library = type.library;
+        this.hidePlaceholder();
+        this.rebuildLayers();
+        this.redraw();
+      })
+      .catch(error => {
+        console.error(`[PetVisual] Failed to load pet: ${type.library}`, error);
+
+        if (this.figure === figure && this.petContainer.scene) {
+          this.showPlaceholder();
+        }
+      });
+  }
+
+  public getFigure(): string {
+    return this.figure;
+  }
+
+  public setPosture(posture: PetPosture): void {
+    if (this.posture === posture) return;
+
+    this.posture = posture;
+    this.redraw();
+  }
+
+  public getPosture(): PetPosture {
+    return this.posture;
+  }
+
+  public render(state: RoomUnitState): void {
+    this.state = state;
+    this.placeholder?.render(state);
+    this.redraw();
+  }
+
+  public update(delta: number): void {
+    this.placeholder?.update(delta);
+  }
+
+  private showPlaceholder(): void {
+    const color = this.petFigure ? parseInt(this.petFigure.color, 16) : undefined;
+
+    if (this.placeholder) {
+      if (color !== undefined) this.placeholder.setColor(color);
+      return;
+    }
+
+    this.layerImages.forEach(image => image.destroy());
+    this.layerImages = [];
+
+    this.placeholder = new PlaceholderVisual(this.scene, color);
+    this.placeholder.attach(this.petContainer);
+
+    if (this.state) {
+      this.placeholder.render(this.state);
+    }
+  }
+
+  private hidePlaceholder(): void {
+    this.placeholder?.destroy();
+    this.placeholder = null;
+  }
+
+  private rebuildLayers(): void {
+    this.layerImages.forEach(image => image.destroy());
+    this.layerImages = [];
+
+    const metadata = this.library ? this.assetManager.getMetadata('pet', this.library) : null;
+    const visualization = metadata ? FurnitureVisualizer.getVisualization(metadata, PetVisual.SIZE) : null;
+    if (!visualization) return;
+
+    for (let i = 0; i < visualization.layerCount; i++) {
+      const image = this.scene.add.image(0, 0, '__DEFAULT');
+      const layer = visualization.layers?.[i] || {};
+
+      image.setOrigin(0, 0);
+      image.setAlpha((layer.alpha ?? 255) / 255);
+
+      if (layer.ink) {
+        image.setBlendMode(FurnitureVisualizer.getBlendMode(layer.ink));
+      }
+
+      image.setData('z', layer.z ?? 0);
+      this.layerImages.push(image);
+    }
+
+    this.petContainer.add(this.layerImages);
+    this.petContainer.sort('z');
+  }
+
+  private redraw(): void {
+    if (!this.state || !this.library || !this.petFigure) return;
+
+    const metadata = this.assetManager.getMetadata('pet', this.library);
+    if (!metadata) return;
+
+    const direction = AssetLoader.getNearestDirection(metadata, this.state.direction);
+    const action = this.state.isWalking ? 'wlk' : this.posture;
+    const frame = this.state.isWalking ? this.state.walkFrame : 0;
+    const prefix = `${this.library}_${PetVisual.SIZE}`;
+    const tint = parseInt(this.petFigure.color, 16);
+
+    this.layerImages.forEach((image, index) => {
+      const letter = String.fromCharCode(97 + index);
+      const candidates = [
+        `${prefix}_${letter}_${action}_${direction}_${frame}`,
+        `${prefix}_${letter}_${action}_${direction}_0`,
+        `${prefix}_${letter}_std_${direction}_0`
+      ];
+
+      const applied = FigureComposer.applyAsset(this.scene, image, 'pet', this.library!, candidates, false);
+
+      image.setVisible(applied);
+
+      if (image.blendMode === Phaser.BlendModes.NORMAL) {
+        image.setTint(tint);
+      }
+    });
+  }
+
+  public getHeight(): number {
+    if (this.placeholder) {
+      return this.placeholder.getHeight();
+    }
+
+    return PetVisual.POSTURE_HEIGHTS[this.posture];
+  }
+
+  private releaseLibrary(): void {
+    if (this.library) {
+      this.assetManager.removeReference('pet', this.library);
+    }
+
+    this.library = null;
+  }
+
+  public destroy(): void {
+    this.releaseLibrary();
+    this.hidePlaceholder();
+    this.layerImages.forEach(image => image.destroy());
+    this.layerImages = [];
+    this.petContainer.destroy();
+  }
+}
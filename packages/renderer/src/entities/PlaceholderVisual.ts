@@ -0,0 +1,86 @@
+import Phaser from 'phaser';
+import { RoomUnitState, RoomUnitVisual } from '../data/types/RoomUnitData';
+
+export class PlaceholderVisual implements RoomUnitVisual {
+  private static readonly DIRECTION_VECTORS: Array<[number, number]> = [
+    [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]
+  ];
+
+  private body: Phaser.GameObjects.Container;
+  private bodySprite: Phaser.GameObjects.Arc;
+  private directionIndicator: Phaser.GameObjects.Triangle;
+
+  private isWalking: boolean = false;
+  private elapsed: number = 0;
+
+  constructor(scene: Phaser.Scene, color: number = 0x00bbff) {
+    const shadow = scene.add.ellipse(0, 8, 24, 12, 0x000000, 0.3);
+
+    this.bodySprite = scene.add.circle(0, 0, 18, color, 1);
+    this.bodySprite.setStrokeStyle(3, 0xffffff, 0.8);
+
+    const innerGlow = scene.add.circle(0, -2, 12, 0xffffff, 0.3);
+    const centerDot = scene.add.circle(0, 0, 5, 0x0088cc, 1);
+
+    this.directionIndicator = scene.add.triangle(
+      0, -22,
+      0, -12,
+      6, 0,
+      -6, 0,
+      0xffdd00,
+      1
+    );
+    this.directionIndicator.setStrokeStyle(2, 0xff8800, 1);
+
+    this.body = scene.add.container(0, -18, [shadow, this.bodySprite, innerGlow, centerDot, this.directionIndicator]);
+  }
+
+  public attach(container: Phaser.GameObjects.Container): void {
+    container.add(this.body);
+  }
+
+  public render(state: RoomUnitState): void {
+    this.isWalking = state.isWalking;
+
+    const [dx, dy] = PlaceholderVisual.DIRECTION_VECTORS[state.direction] || [0, 1];
+    const screenX = (dx - dy) * 32;
+    const screenY = (dx + dy) * 16;
+
+    this.directionIndicator.setRotation(Math.atan2(screenX, -screenY));
+
+    if (!this.isWalking) {
+      this.bodySprite.setY(0);
+    }
+  }
+
+  public update(delta: number): void {
+    this.elapsed += delta;
+
+    if (this.isWalking) {
+      this.bodySprite.setScale(1);
+      this.bodySprite.setY(-Math.abs(Math.sin(this.elapsed / 100)) * 4);
+    } else {
+      this.bodySprite.setScale(1 + Math.sin(this.elapsed / 500) * 0.03);
+    }
+  }
+
+  public getHeight(): number {
+    return 50;
+  }
+
+  public setColor(color: number): void {
+    this.bodySprite.setFillStyle(color, 1);
+  }
+
+  public setHighlight(enabled: boolean): void {
+    if (enabled) {
+      this.bodySprite.setStrokeStyle(3, 0xffff00);
+    } else {
+      this.bodySprite.setStrokeStyle(2, 0x0088cc);
+    }
+  }
+
+  public destroy(): void {
+    this.body.destroy();
+  }
+}
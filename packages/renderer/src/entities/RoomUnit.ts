@@ -0,0 +1,388 @@
+import Phaser from 'phaser';
+import { Vector3 } from '../data/types/Vector3';
+import { IsometricEngine } from '../engine/IsometricEngine';
+import { RoomClock } from '../engine/RoomClock';
+import { PathFinder } from '../systems/PathFinder';
+import { RoomUnitPosture, RoomUnitState, RoomUnitVisual } from '../data/types/RoomUnitData';
+
+export class RoomUnit<TVisual extends RoomUnitVisual = RoomUnitVisual> {
+  private static readonly MAX_HEAD_TURN = 1;
+  private static readonly WALK_FRAMES = 4;
+  private static readonly WALK_FRAME_TICKS = 2;
+  private static readonly NAME_TAG_MARGIN = 8;
+  private static readonly CHAT_BUBBLE_MARGIN = 24;
+  private static readonly CHAT_BUBBLE_DURATION = 4000;
+
+  protected scene: Phaser.Scene;
+  public container: Phaser.GameObjects.Container;
+  protected visual: TVisual;
+  private nameTag: Phaser.GameObjects.Text | null = null;
+  private chatBubble: Phaser.GameObjects.Text | null = null;
+  private chatBubbleRemaining: number = 0;
+
+  private position: Vector3;
+  private direction: number = 2;
+  private headDirection: number = 2;
+  private isWalking: boolean = false;
+  private posture: RoomUnitPosture = 'std';
+
+  private currentPath: Vector3[] = [];
+  private currentTarget: Vector3 | null = null;
+
+  private moveElapsed: number = 0;
+  private moveDuration: number = 500;
+  private moveStartPos: Vector3 = new Vector3(0, 0, 0);
+
+  private walkFrame: number = 0;
+  private walkElapsed: number = 0;
+
+  private name: string;
+  private id: number;
+
+  private stepValidator: ((next: Vector3, destination: Vector3) => boolean) | null = null;
+  private onArrivalCallback?: () => void;
+  private onBlockedCallback?: (destination: Vector3) => void;
+
+  constructor(
+    scene: Phaser.Scene,
+    id: number,
+    name: string,
+    startX: number,
+    startY: number,
+    startZ: number,
+    visual: TVisual
+  ) {
+    this.scene = scene;
+    this.id = id;
+    this.name = name;
+    this.position = new Vector3(startX, startY, startZ);
+    this.visual = visual;
+
+    this.container = scene.add.container(0, 0);
+    this.visual.attach(this.container);
+
+    this.updateScreenPosition();
+    this.render();
+  }
+
+  public getState(): RoomUnitState {
+    return {
+      direction: this.direction,
+      headDirection: this.headDirection,
+      posture: this.posture,
+      isWalking: this.isWalking,
+      walkFrame: this.walkFrame
+    };
+  }
+
+  protected render(): void {
+    this.visual.render(this.getState());
+    this.updateNameTag();
+  }
+
+  public setNameTagVisible(visible: boolean): void {
+    if (visible && !this.nameTag) {
+      this.nameTag = this.scene.add.text(0, 0, this.name, {
+        fontSize: '12px',
+        color: '#ffffff',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 3
+      });
+      this.nameTag.setOrigin(0.5, 1);
+      this.container.add(this.nameTag);
+    }
+
+    this.nameTag?.setVisible(visible);
+    this.updateNameTag();
+  }
+
+  private updateNameTag(): void {
+    this.nameTag?.setY(-(this.visual.getHeight() + RoomUnit.NAME_TAG_MARGIN));
+    this.chatBubble?.setY(-(this.visual.getHeight() + RoomUnit.CHAT_BUBBLE_MARGIN));
+  }
+
+  public showChatBubble(message: string, duration: number = RoomUnit.CHAT_BUBBLE_DURATION): void {
+    if (!this.chatBubble) {
+      this.chatBubble = this.scene.add.text(0, 0, '', {
+        fontSize: '12px',
+        color: '#000000',
+        backgroundColor: '#ffffff',
+        padding: { x: 6, y: 3 },
+        wordWrap: { width: 200 }
+      });
+      this.chatBubble.setOrigin(0.5, 1);
+      this.container.add(this.chatBubble);
+    }
+
+    this.chatBubble.setText(`${this.name}: ${message}`);
+    this.chatBubble.setVisible(true);
+    this.chatBubbleRemaining = duration;
+    this.updateNameTag();
+  }
+
+  private updateChatBubble(delta: number): void {
+    if (!this.chatBubble || this.chatBubbleRemaining <= 0) return;
+
+    this.chatBubbleRemaining -= delta;
+
+    if (this.chatBubbleRemaining <= 0) {
+      this.chatBubble.setVisible(false);
+    }
+  }
+
+  public walkTo(path: Vector3[]): void {
+    if (path.length === 0) return;
+
+    if (this.isWalking) {
+      this.position.set(
+        Math.round(this.position.x),
+        Math.round(this.position.y),
+        this.position.z
+      );
+    }
+
+    this.currentPath = path.map(p => new Vector3(p.x, p.y, p.z));
+    this.currentTarget = this.currentPath.shift() || null;
+
+    if (this.currentTarget && !this.canStepTo(this.currentTarget)) {
+      this.block();
+      return;
+    }
+
+    if (this.currentTarget) {
+      this.isWalking = true;
+      this.posture = 'std';
+      this.walkFrame = 0;
+      this.walkElapsed = 0;
+
+      this.faceTowards(this.currentTarget);
+      this.render();
+
+      this.moveElapsed = 0;
+      this.moveStartPos = this.position.clone();
+    }
+  }
+
+  public stop(): void {
+    this.isWalking = false;
+    this.currentPath = [];
+    this.currentTarget = null;
+    this.walkFrame = 0;
+    this.walkElapsed = 0;
+    this.render();
+  }
+
+  public update(_time: number, delta: number): void {
+    this.visual.update(delta);
+    this.updateChatBubble(delta);
+
+    if (!this.isWalking || !this.currentTarget) return;
+
+    this.moveElapsed += delta;
+
+    while (this.isWalking && this.currentTarget && this.moveElapsed >= this.moveDuration) {
+      this.moveElapsed -= this.moveDuration;
+      this.position.set(
+        this.currentTarget.x,
+        this.currentTarget.y,
+        this.currentTarget.z
+      );
+
+      if (this.currentPath.length > 0 && !this.canStepTo(this.currentPath[0])) {
+        this.moveElapsed = 0;
+        this.block();
+      } else if (this.currentPath.length > 0) {
+        this.currentTarget = this.currentPath.shift()!;
+        this.faceTowards(this.currentTarget);
+        this.moveStartPos = this.position.clone();
+        this.render();
+      } else {
+        this.moveElapsed = 0;
+        this.stop();
+
+        if (this.onArrivalCallback) {
+          this.onArrivalCallback();
+        }
+      }
+    }
+
+    if (this.isWalking && this.currentTarget) {
+      const progress = this.moveElapsed / this.moveDuration;
+
+      this.position.x = this.moveStartPos.x + (this.currentTarget.x - this.moveStartPos.x) * progress;
+      this.position.y = this.moveStartPos.y + (this.currentTarget.y - this.moveStartPos.y) * progress;
+      this.position.z = this.moveStartPos.z + (this.currentTarget.z - this.moveStartPos.z) * progress;
+
+      this.updateWalkFrame(delta);
+    }
+
+    this.updateScreenPosition();
+  }
+
+  private canStepTo(next: Vector3): boolean {
+    if (!this.stepValidator) return true;
+
+    return this.stepValidator(next, this.getDestination() || next);
+  }
+
+  private block(): void {
+    const destination = this.getDestination();
+
+    this.stop();
+
+    if (destination && this.onBlockedCallback) {
+      this.onBlockedCallback(destination);
+    }
+  }
+
+  private updateWalkFrame(delta: number): void {
+    const frameInterval = RoomClock.getTickInterval() * RoomUnit.WALK_FRAME_TICKS;
+
+    this.walkElapsed += delta;
+    if (this.walkElapsed < frameInterval) return;
+
+    const frames = Math.floor(this.walkElapsed / frameInterval);
+
+    this.walkElapsed -= frames * frameInterval;
+    this.walkFrame = (this.walkFrame + frames) % RoomUnit.WALK_FRAMES;
+    this.render();
+  }
+
+  private faceTowards(target: Vector3): void {
+    const from = this.position;
+    if (from.x === target.x && from.y === target.y) return;
+
+    const direction = PathFinder.getDirection(from.x, from.y, target.x, target.y);
+
+    this.direction = direction;
+    this.headDirection = direction;
+  }
+
+  public getDirection(): number {
+    return this.direction;
+  }
+
+  public setDirection(direction: number): void {
+    if (this.direction === direction && this.headDirection === direction) return;
+
+    this.direction = direction;
+    this.headDirection = direction;
+    this.render();
+  }
+
+  public getHeadDirection(): number {
+    return this.headDirection;
+  }
+
+  public setHeadDirection(direction: number): void {
+    const offset = ((direction - this.direction + 12) % 8) - 4;
+    const clamped = Math.max(-RoomUnit.MAX_HEAD_TURN, Math.min(RoomUnit.MAX_HEAD_TURN, offset));
+    const headDirection = (this.direction + clamped + 8) % 8;
+
+    if (this.headDirection !== headDirection) {
+      this.headDirection = headDirection;
+      this.render();
+    }
+  }
+
+  public lookAt(x: number, y: number): void {
+    if (this.isWalking) return;
+
+    const dx = x - this.position.x;
+    const dy = y - this.position.y;
+    if (dx === 0 && dy === 0) return;
+
+    const angle = Math.atan2(dx, -dy) * 180 / Math.PI;
+
+    this.setHeadDirection((Math.round(angle / 45) + 8) % 8);
+  }
+
+  private updateScreenPosition(): void {
+    const baseTileCorner = IsometricEngine.tileToScreen(
+      Math.floor(this.position.x),
+      Math.floor(this.position.y),
+      this.position.z
+    );
+
+    const fracX = this.position.x - Math.floor(this.position.x);
+    const fracY = this.position.y - Math.floor(this.position.y);
+
+    this.container.setPosition(
+      baseTileCorner.x + 32 + (fracX - fracY) * 32,
+      baseTileCorner.y + (fracX + fracY) * 16
+    );
+  }
+
+  public setPosture(posture: RoomUnitPosture, direction?: number, z?: number): void {
+    this.posture = posture;
+
+    if (direction !== undefined) {
+      this.direction = direction;
+      this.headDirection = direction;
+    }
+
+    if (z !== undefined) {
+      this.position.z = z;
+    }
+
+    this.updateScreenPosition();
+    this.render();
+  }
+
+  public getPosture(): RoomUnitPosture {
+    return this.posture;
+  }
+
+  public onArrival(callback: () => void): void {
+    this.onArrivalCallback = callback;
+  }
+
+  public onBlocked(callback: (destination: Vector3) => void): void {
+    this.onBlockedCallback = callback;
+  }
+
+  public setStepValidator(validator: ((next: Vector3, destination: Vector3) => boolean) | null): void {
+    this.stepValidator = validator;
+  }
+
+  public getNextTile(): { x: number; y: number } | null {
+    return this.currentTarget ? { x: this.currentTarget.x, y: this.currentTarget.y } : null;
+  }
+
+  public getDestination(): Vector3 | null {
+    return this.currentPath[this.currentPath.length - 1] || this.currentTarget;
+  }
+
+  public getPosition(): Vector3 {
+    return this.position;
+  }
+
+  public getTilePosition(): { x: number; y: number } {
+    return {
+      x: Math.floor(this.position.x),
+      y: Math.floor(this.position.y)
+    };
+  }
+
+  public setDepth(depth: number): void {
+    this.container.setDepth(depth);
+  }
+
+  public isMoving(): boolean {
+    return this.isWalking;
+  }
+
+  public getId(): number {
+    return this.id;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public destroy(): void {
+    this.visual.destroy();
+    this.container.destroy();
+  }
+}
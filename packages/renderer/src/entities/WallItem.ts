@@ -0,0 +1,137 @@
+import Phaser from 'phaser';
+import { WallItemData, WallLocation } from '../data/types/RoomData';
+import { FurnitureAnimationFrame } from '../data/types/FurnitureData';
+import { DepthManager } from '../engine/DepthManager';
+import { AssetLoader } from '../systems/AssetLoader';
+import { FurnitureAnimator } from '../systems/FurnitureAnimator';
+import { FurnitureVisualizer } from '../systems/FurnitureVisualizer';
+import { WallPlacement } from '../systems/WallPlacement';
+
+export class WallItem {
+  private scene: Phaser.Scene;
+  public container: Phaser.GameObjects.Container;
+
+  private data: WallItemData;
+  private className: string;
+  private size: number;
+  private wallTop: number = 0;
+  private visualization: Phaser.GameObjects.Container | null = null;
+  private animator: FurnitureAnimator | null = null;
+  private layerCount: number = 0;
+
+  constructor(scene: Phaser.Scene, data: WallItemData, className: string, size: number = 64) {
+    this.scene = scene;
+    this.data = data;
+    this.className = className;
+    this.size = size;
+
+    this.container = scene.add.container(0, 0);
+  }
+
+  public render(): void {
+    this.container.removeAll(true);
+
+    const metadata = AssetLoader.getMetadata('furniture', this.className);
+    const visualizationData = metadata ? FurnitureVisualizer.getVisualization(metadata, this.size) : null;
+
+    this.layerCount = visualizationData?.layerCount || 0;
+
+    if (!FurnitureAnimator.hasAnimations(visualizationData?.animations)) {
+      this.animator = null;
+    } else if (!this.animator) {
+      this.animator = new FurnitureAnimator(visualizationData!.animations!, this.data.state);
+    }
+
+    this.visualization = FurnitureVisualizer.createVisualization(
+      this.scene,
+      this.className,
+      this.getDirection(),
+      this.size,
+      this.getLayerFrames()
+    );
+
+    if (this.visualization) {
+      this.container.add(this.visualization);
+    }
+  }
+
+  public update(delta: number): void {
+    if (!this.animator || !this.visualization) return;
+
+    if (this.animator.update(delta)) {
+      FurnitureVisualizer.updateVisualization(
+        this.scene,
+        this.visualization,
+        this.className,
+        this.getDirection(),
+        this.size,
+        this.getLayerFrames()
+      );
+    }
+  }
+
+  private getLayerFrames(): FurnitureAnimationFrame[] {
+    return this.animator ? this.animator.getLayerFrames(this.layerCount) : [];
+  }
+
+  public getState(): number {
+    return this.data.state;
+  }
+
+  public setState(state: number): void {
+    this.data.state = state;
+    this.animator?.setState(state);
+  }
+
+  public getDirection(): number {
+    return WallPlacement.getDirection(this.data.location.side);
+  }
+
+  public getLocation(): WallLocation {
+    return this.data.location;
+  }
+
+  public setLocation(location: WallLocation, wallTop: number = this.wallTop): void {
+    const sideChanged = location.side !== this.data.location.side;
+
+    this.data.location = location;
+    this.wallTop = wallTop;
+
+    const screenPos = WallPlacement.getScreenPosition(location, wallTop);
+    this.container.setPosition(screenPos.x, screenPos.y);
+
+    DepthManager.updateWallItemDepth(this.container, location.x, location.y, location.offsetX);
+
+    if (sideChanged && this.isRendered()) {
+      this.render();
+    }
+  }
+
+  public setClipMask(mask: Phaser.Display.Masks.GeometryMask | null): void {
+    if (mask) {
+      this.container.setMask(mask);
+    } else {
+      this.container.clearMask();
+    }
+  }
+
+  public getId(): number {
+    return this.data.id;
+  }
+
+  public getData(): WallItemData {
+    return this.data;
+  }
+
+  public getClassName(): string {
+    return this.className;
+  }
+
+  public isRendered(): boolean {
+    return this.visualization !== null;
+  }
+
+  public destroy(): void {
+    this.container.destroy();
+  }
+}
@@ -2,6 +2,18 @@ export { AssetManager } from './managers/AssetManager';
 export type { AssetCollection, HabboAssetData, AssetType } from './managers/AssetManager';
 
 export { RoomManager } from './managers/RoomManager';
+export { FurnitureManager } from './managers/FurnitureManager';
+export { FurnitureTypeRegistry } from './managers/FurnitureTypeRegistry';
+export { FurnitureSelectionManager } from './managers/FurnitureSelectionManager';
+export { FurnitureLogicRegistry } from './managers/FurnitureLogicRegistry';
+export { FigureDataRegistry } from './managers/FigureDataRegistry';
+export { AvatarEffectRegistry } from './managers/AvatarEffectRegistry';
+export { AvatarAnimationRegistry } from './managers/AvatarAnimationRegistry';
+export { PetTypeRegistry } from './managers/PetTypeRegistry';
+export { FigureCache } from './managers/FigureCache';
+export type { BakedFigurePose } from './managers/FigureCache';
+export { WallItemManager } from './managers/WallItemManager';
+export { RoomUnitManager } from './managers/RoomUnitManager';
 
 export { InputManager } from './managers/InputManager';
 export type { TilePosition } from './managers/InputManager';
@@ -9,18 +21,43 @@ export type { TilePosition } from './managers/InputManager';
 export { CameraManager } from './managers/CameraManager';
 
 export { AssetLoader } from './systems/AssetLoader';
-export type { HabboAssetMetadata } from './systems/AssetLoader';
+export type { HabboAssetMetadata, ResolvedAsset } from './systems/AssetLoader';
 
 export { FloorRenderer } from './systems/FloorRenderer';
 export { WallRenderer } from './systems/WallRenderer';
 export { StairRenderer } from './systems/StairRenderer';
+export { FurnitureVisualizer } from './systems/FurnitureVisualizer';
+export { FurnitureAnimator } from './systems/FurnitureAnimator';
+export { FurnitureTileMap } from './systems/FurnitureTileMap';
+export { WallPlacement } from './systems/WallPlacement';
+export { CreditFurnitureLogic } from './systems/CreditFurnitureLogic';
+export { FigureParser } from './systems/FigureParser';
+export { FigureComposer } from './systems/FigureComposer';
+export { FigurePaletteLoader } from './systems/FigurePaletteLoader';
+export { AvatarEffectComposer } from './systems/AvatarEffectComposer';
+export { AvatarAnimationSequencer } from './systems/AvatarAnimationSequencer';
+export { DANCE_SEQUENCES } from './systems/DanceSequences';
 export { PathFinder } from './systems/PathFinder';
+export { PetFigureParser } from './systems/PetFigureParser';
+export { WanderBehavior } from './systems/WanderBehavior';
+export { BotRouteBehavior } from './systems/BotRouteBehavior';
+export { BotPhraseScheduler } from './systems/BotPhraseScheduler';
+export { UnitMovementController } from './systems/UnitMovementController';
+export type { WanderOptions } from './systems/WanderBehavior';
 
+export { RoomUnit } from './entities/RoomUnit';
+export { FigureVisual } from './entities/FigureVisual';
+export { PlaceholderVisual } from './entities/PlaceholderVisual';
 export { HabboAvatarSprite } from './entities/HabboAvatarSprite';
-export { Avatar } from './entities/Avatar';
+export { PetVisual } from './entities/PetVisual';
+export { Pet } from './entities/Pet';
+export { Bot } from './entities/Bot';
+export { Furniture } from './entities/Furniture';
+export { WallItem } from './entities/WallItem';
 
 export { IsometricEngine } from './engine/IsometricEngine';
 export { DepthManager } from './engine/DepthManager';
+export { RoomClock } from './engine/RoomClock';
 export { CubeRenderer } from './engine/CubeRenderer';
 export { GreedyMesher } from './engine/GreedyMesher';
 
@@ -30,9 +67,71 @@ export type { BundleFile } from './utils/BundleLoader';
 export { MeshCache } from './utils/MeshCache';
 export { GraphicsPool } from './utils/GraphicsPool';
 export { TileSpatialGrid } from './utils/TileSpatialGrid';
+export { BinaryHeap } from './utils/BinaryHeap';
 
 export { RoomObjectCategory } from './data/types/RoomData';
-export type { Tile, RoomObject, FurniData, AvatarData, RoomData } from './data/types/RoomData';
-export type { Vector3 } from './data/types/Vector3';
+export type {
+  AvatarAnimationFrame,
+  AvatarAnimationSequence
+} from './data/types/AvatarAnimationData';
+export type {
+  AvatarEffectType,
+  AvatarEffectSprite,
+  AvatarEffectPartFrame,
+  AvatarEffectSpriteFrame,
+  AvatarEffectFrame,
+  AvatarEffectAnimation
+} from './data/types/EffectData';
+export { DEFAULT_PET_FIGURE, type PetType, type PetFigure } from './data/types/PetData';
+export type { PathfindingOptions, CornerCutting } from './data/types/PathfindingData';
+export type {
+  RoomUnitPosture,
+  RoomUnitState,
+  RoomUnitType,
+  RoomUnitVisual
+} from './data/types/RoomUnitData';
+export type {
+  Tile,
+  RoomObject,
+  FurniData,
+  AvatarData,
+  AvatarGesture,
+  PetData,
+  PetPosture,
+  BotData,
+  BotRoute,
+  BotRouteMode,
+  BotRouteStep,
+  BotPhraseSchedule,
+  RoomData,
+  WallSide,
+  WallLocation,
+  WallItemData
+} from './data/types/RoomData';
+export type {
+  FurnitureType,
+  FurnitureAssetData,
+  FurnitureVisualizationData,
+  FurnitureVisualizationLayer,
+  FurnitureAnimationData,
+  FurnitureAnimationLayer,
+  FurnitureAnimationFrame,
+  FurnitureIntent,
+  FurnitureIntentType,
+  FurnitureAction,
+  FurnitureLogicHandler,
+  FurnitureTileInfo,
+  FurnitureTileUsage
+} from './data/types/FurnitureData';
+export type {
+  FigurePartSelection,
+  FigureSetPart,
+  FigureSet,
+  FigureLayer,
+  FigurePalette,
+  FigurePaletteColor
+} from './data/types/FigureData';
+export { DEFAULT_AVATAR_FIGURE } from './data/types/FigureData';
+export { Vector3 } from './data/types/Vector3';
 export type { Vector3D, Vector2D, TileMesh, WallMesh, StairMesh, CubeFace } from './data/types/MeshData';
 export { StairDirection, type StairCornerType } from './data/types/StairData';
\ No newline at end of file
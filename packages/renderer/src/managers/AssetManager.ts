@@ -8,6 +8,7 @@ export interface HabboAssetData {
   assets?: Record<string, any>;
   logic?: any;
   visualizations?: any[];
+  animation?: any;
   spritesheet?: {
     frames: Record<string, any>;
     meta: {
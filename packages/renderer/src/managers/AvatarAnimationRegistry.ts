@@ -0,0 +1,35 @@
+import { AvatarAnimationSequence } from '../data/types/AvatarAnimationData';
+import { DANCE_SEQUENCES } from '../systems/DanceSequences';
+
+export class AvatarAnimationRegistry {
+  private static instance: AvatarAnimationRegistry | null = null;
+
+  private sequences: Map<string, AvatarAnimationSequence> = new Map();
+
+  private constructor() {
+    this.registerAll(DANCE_SEQUENCES);
+  }
+
+  public static getInstance(): AvatarAnimationRegistry {
+    if (!AvatarAnimationRegistry.instance) {
+      AvatarAnimationRegistry.instance = new AvatarAnimationRegistry();
+    }
+    return AvatarAnimationRegistry.instance;
+  }
+
+  public register(sequence: AvatarAnimationSequence): void {
+    this.sequences.set(sequence.id, sequence);
+  }
+
+  public registerAll(sequences: AvatarAnimationSequence[]): void {
+    sequences.forEach(sequence => this.register(sequence));
+  }
+
+  public getSequence(id: string): AvatarAnimationSequence | null {
+    return this.sequences.get(id) || null;
+  }
+
+  public hasSequence(id: string): boolean {
+    return this.sequences.has(id);
+  }
+}
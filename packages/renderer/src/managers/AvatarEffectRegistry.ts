@@ -0,0 +1,36 @@
+import { AvatarEffectType } from '../data/types/EffectData';
+
+export class AvatarEffectRegistry {
+  private static instance: AvatarEffectRegistry | null = null;
+
+  private effects: Map<number, AvatarEffectType> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): AvatarEffectRegistry {
+    if (!AvatarEffectRegistry.instance) {
+      AvatarEffectRegistry.instance = new AvatarEffectRegistry();
+    }
+    return AvatarEffectRegistry.instance;
+  }
+
+  public register(effect: AvatarEffectType): void {
+    this.effects.set(effect.id, effect);
+  }
+
+  public registerAll(effects: AvatarEffectType[]): void {
+    effects.forEach(effect => this.register(effect));
+  }
+
+  public getEffect(id: number): AvatarEffectType | null {
+    return this.effects.get(id) || null;
+  }
+
+  public hasEffect(id: number): boolean {
+    return this.effects.has(id);
+  }
+
+  public getAllEffects(): AvatarEffectType[] {
+    return Array.from(this.effects.values());
+  }
+}
@@ -0,0 +1,167 @@
+import Phaser from 'phaser';
+
+export interface BakedFigurePose {
+  textureKey: string;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface FigureCacheEntry {
+  poses: Map<string, BakedFigurePose>;
+  textures: Phaser.Textures.TextureManager | null;
+  referenceCount: number;
+  lastUsedTimestamp: number;
+}
+
+export class FigureCache {
+  private static instance: FigureCache | null = null;
+
+  private entries: Map<string, FigureCacheEntry> = new Map();
+  private enabled: boolean = true;
+  private nextTextureId: number = 0;
+  private gcInterval: number | null = null;
+
+  private constructor() {
+    this.startGarbageCollector();
+  }
+
+  public static getInstance(): FigureCache {
+    if (!FigureCache.instance) {
+      FigureCache.instance = new FigureCache();
+    }
+    return FigureCache.instance;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public addReference(figure: string): void {
+    const entry = this.getOrCreateEntry(figure);
+
+    entry.referenceCount++;
+    entry.lastUsedTimestamp = Date.now();
+  }
+
+  public removeReference(figure: string): void {
+    const entry = this.entries.get(figure);
+    if (!entry) return;
+
+    entry.referenceCount = Math.max(0, entry.referenceCount - 1);
+    entry.lastUsedTimestamp = Date.now();
+  }
+
+  public getPose(figure: string, poseKey: string): BakedFigurePose | null {
+    if (!this.enabled) return null;
+
+    return this.entries.get(figure)?.poses.get(poseKey) || null;
+  }
+
+  public bake(
+    scene: Phaser.Scene,
+    figure: string,
+    poseKey: string,
+    images: Phaser.GameObjects.Image[]
+  ): BakedFigurePose | null {
+    if (!this.enabled) return null;
+
+    const visible = images.filter(image => image.visible);
+    if (visible.length === 0) return null;
+
+    const bounds = this.getBounds(visible);
+    const width = Math.ceil(bounds.right - bounds.left);
+    const height = Math.ceil(bounds.bottom - bounds.top);
+    if (width <= 0 || height <= 0) return null;
+
+    const textureKey = `figure_cache_${this.nextTextureId++}`;
+    const texture = scene.textures.addDynamicTexture(textureKey, width, height);
+    if (!texture) return null;
+
+    for (const image of visible) {
+      texture.draw(image, image.x - bounds.left, image.y - bounds.top);
+    }
+
+    const pose: BakedFigurePose = { textureKey, offsetX: bounds.left, offsetY: bounds.top };
+    const entry = this.getOrCreateEntry(figure);
+
+    entry.textures = scene.textures;
+    entry.poses.set(poseKey, pose);
+
+    return pose;
+  }
+
+  private getBounds(images: Phaser.GameObjects.Image[]): { left: number; top: number; right: number; bottom: number } {
+    return images.reduce(
+      (bounds, image) => ({
+        left: Math.min(bounds.left, image.x),
+        top: Math.min(bounds.top, image.y),
+        right: Math.max(bounds.right, image.x + image.width),
+        bottom: Math.max(bounds.bottom, image.y + image.height)
+      }),
+      { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity }
+    );
+  }
+
+  private getOrCreateEntry(figure: string): FigureCacheEntry {
+    let entry = this.entries.get(figure);
+
+    if (!entry) {
+      entry = { poses: new Map(), textures: null, referenceCount: 0, lastUsedTimestamp: Date.now() };
+      this.entries.set(figure, entry);
+    }
+
+    return entry;
+  }
+
+  public getCachedFigures(): string[] {
+    return Array.from(this.entries.keys()).filter(figure => this.entries.get(figure)!.poses.size > 0);
+  }
+
+  private startGarbageCollector(): void {
+    if (typeof window === 'undefined') return;
+
+    this.gcInterval = window.setInterval(() => {
+      this.garbageCollect();
+    }, 30000);
+  }
+
+  public stopGarbageCollector(): void {
+    if (this.gcInterval !== null) {
+      clearInterval(this.gcInterval);
+      this.gcInterval = null;
+    }
+  }
+
+  public garbageCollect(maxIdleTime: number = 60000): void {
+    const now = Date.now();
+
+    for (const [figure, entry] of this.entries.entries()) {
+      if (entry.referenceCount > 0 || now - entry.lastUsedTimestamp <= maxIdleTime) continue;
+
+      this.evict(figure);
+    }
+  }
+
+  private evict(figure: string): void {
+    const entry = this.entries.get(figure);
+    if (!entry) return;
+
+    entry.poses.forEach(pose => {
+      if (entry.textures?.exists(pose.textureKey)) {
+        entry.textures.remove(pose.textureKey);
+      }
+    });
+
+    this.entries.delete(figure);
+  }
+
+  public clear(): void {
+    for (const figure of Array.from(this.entries.keys())) {
+      this.evict(figure);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { FigurePalette, FigurePaletteColor, FigureSet } from '../data/types/FigureData';
+
+export class FigureDataRegistry {
+  private static instance: FigureDataRegistry | null = null;
+
+  private sets: Map<string, FigureSet> = new Map();
+  private palettes: Map<number, FigurePalette> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): FigureDataRegistry {
+    if (!FigureDataRegistry.instance) {
+      FigureDataRegistry.instance = new FigureDataRegistry();
+    }
+    return FigureDataRegistry.instance;
+  }
+
+  public register(set: FigureSet): void {
+    this.sets.set(`${set.type}-${set.id}`, set);
+  }
+
+  public registerAll(sets: FigureSet[]): void {
+    sets.forEach(set => this.register(set));
+  }
+
+  public getSet(type: string, id: number): FigureSet | null {
+    return this.sets.get(`${type}-${id}`) || null;
+  }
+
+  public getSetsOfType(type: string): FigureSet[] {
+    return Array.from(this.sets.values()).filter(set => set.type === type);
+  }
+
+  public registerPalette(palette: FigurePalette): void {
+    this.palettes.set(palette.id, palette);
+  }
+
+  public registerPalettes(palettes: FigurePalette[]): void {
+    palettes.forEach(palette => this.registerPalette(palette));
+  }
+
+  public getPalette(id: number): FigurePalette | null {
+    return this.palettes.get(id) || null;
+  }
+
+  public getColor(paletteId: number, colorId: number): FigurePaletteColor | null {
+    return this.getPalette(paletteId)?.colors.find(color => color.id === colorId) || null;
+  }
+
+  public getSelectableColors(paletteId: number): FigurePaletteColor[] {
+    return (this.getPalette(paletteId)?.colors || [])
+      .filter(color => color.selectable)
+      .sort((a, b) => a.index - b.index);
+  }
+}
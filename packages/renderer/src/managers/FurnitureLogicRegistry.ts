@@ -0,0 +1,49 @@
+import { FurnitureAction, FurnitureIntent, FurnitureLogicHandler } from '../data/types/FurnitureData';
+import { Furniture } from '../entities/Furniture';
+import { CreditFurnitureLogic } from '../systems/CreditFurnitureLogic';
+
+export class FurnitureLogicRegistry {
+  private static instance: FurnitureLogicRegistry | null = null;
+
+  private handlers: Map<string, FurnitureLogicHandler> = new Map();
+
+  private constructor() {
+    this.register(new CreditFurnitureLogic());
+  }
+
+  public static getInstance(): FurnitureLogicRegistry {
+    if (!FurnitureLogicRegistry.instance) {
+      FurnitureLogicRegistry.instance = new FurnitureLogicRegistry();
+    }
+    return FurnitureLogicRegistry.instance;
+  }
+
+  public register(handler: FurnitureLogicHandler): void {
+    this.handlers.set(handler.logicType, handler);
+  }
+
+  public unregister(logicType: string): void {
+    this.handlers.delete(logicType);
+  }
+
+  public getHandler(logicType: string): FurnitureLogicHandler | null {
+    return this.handlers.get(logicType) || null;
+  }
+
+  public getHandlerFor(furniture: Furniture): FurnitureLogicHandler | null {
+    const logicType = furniture.getLogicType();
+    return logicType ? this.getHandler(logicType) : null;
+  }
+
+  public getDetails(furniture: Furniture): Record<string, string | number> {
+    return this.getHandlerFor(furniture)?.getDetails(furniture) || {};
+  }
+
+  public getActions(furniture: Furniture): FurnitureAction[] {
+    return this.getHandlerFor(furniture)?.getActions(furniture) || [];
+  }
+
+  public createIntent(furniture: Furniture, actionId: string): FurnitureIntent | null {
+    return this.getHandlerFor(furniture)?.createIntent(furniture, actionId) || null;
+  }
+}
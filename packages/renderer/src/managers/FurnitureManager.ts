@@ -0,0 +1,175 @@
+import Phaser from 'phaser';
+import { FurniData } from '../data/types/RoomData';
+import { Furniture } from '../entities/Furniture';
+import { AssetLoader } from '../systems/AssetLoader';
+import { FurnitureTileMap } from '../systems/FurnitureTileMap';
+import { AssetManager } from './AssetManager';
+import { FurnitureTypeRegistry } from './FurnitureTypeRegistry';
+
+export class FurnitureManager {
+  private scene: Phaser.Scene;
+  private furniture: Map<number, Furniture> = new Map();
+  private assetManager = AssetManager.getInstance();
+  private typeRegistry = FurnitureTypeRegistry.getInstance();
+  private tileMap: FurnitureTileMap = new FurnitureTileMap();
+  private useBundle: boolean;
+
+  constructor(scene: Phaser.Scene, useBundle: boolean = true) {
+    this.scene = scene;
+    this.useBundle = useBundle;
+  }
+
+  public setFurniture(items: FurniData[]): void {
+    this.clear();
+    items.forEach(item => this.addFurniture(item));
+  }
+
+  public addFurniture(data: FurniData): Furniture | null {
+    const type = this.typeRegistry.getType(data.typeId);
+    if (!type) {
+      console.warn(`[FurnitureManager] Unknown furniture type: ${data.typeId}`);
+      return null;
+    }
+
+    if (this.furniture.has(data.id)) {
+      this.removeFurniture(data.id);
+    }
+
+    const furniture = new Furniture(this.scene, data, type.className);
+    this.furniture.set(data.id, furniture);
+    this.updateTileMap();
+
+    if (AssetLoader.isLoaded('furniture', type.className)) {
+      this.renderFurniture(furniture);
+    } else {
+      AssetLoader.loadFurniture(this.scene, type.className, this.useBundle)
+        .then(() => {
+          if (this.furniture.get(data.id) !== furniture) return;
+
+          this.renderFurniture(furniture);
+        })
+        .catch(error => {
+          console.error(`[FurnitureManager] Failed to load furniture: ${type.className}`, error);
+        });
+    }
+
+    return furniture;
+  }
+
+  private renderFurniture(furniture: Furniture): void {
+    furniture.render();
+
+    if (furniture.isRendered()) {
+      this.assetManager.addReference('furniture', furniture.getClassName());
+    }
+
+    this.updateTileMap();
+  }
+
+  public moveFurniture(id: number, x: number, y: number, z: number): void {
+    const furniture = this.furniture.get(id);
+    if (!furniture) return;
+
+    furniture.setPosition(x, y, z);
+    this.updateTileMap();
+  }
+
+  public rotateFurniture(id: number): void {
+    const furniture = this.furniture.get(id);
+    if (!furniture) return;
+
+    furniture.rotate();
+    this.updateTileMap();
+  }
+
+  public setFurnitureState(id: number, state: number): void {
+    const furniture = this.furniture.get(id);
+    if (!furniture) return;
+
+    furniture.setState(state);
+    this.updateTileMap();
+  }
+
+  public getPlacementHeight(
+    data: FurniData,
+    x: number,
+    y: number,
+    getFloorHeight: (x: number, y: number) => number
+  ): number {
+    return this.getFootprint(data, x, y).reduce(
+      (height, tile) => Math.max(height, this.tileMap.getStackHeight(tile.x, tile.y, getFloorHeight(tile.x, tile.y), data.id)),
+      0
+    );
+  }
+
+  public canStackAt(data: FurniData, x: number, y: number): boolean {
+    return this.getFootprint(data, x, y).every(tile => this.tileMap.canStackOn(tile.x, tile.y, data.id));
+  }
+
+  public getTileMap(): FurnitureTileMap {
+    return this.tileMap;
+  }
+
+  private updateTileMap(): void {
+    this.tileMap.build(this.getAllFurniture());
+  }
+
+  public removeFurniture(id: number): void {
+    const furniture = this.furniture.get(id);
+    if (!furniture) return;
+
+    if (furniture.isRendered()) {
+      this.assetManager.removeReference('furniture', furniture.getClassName());
+    }
+
+    furniture.destroy();
+    this.furniture.delete(id);
+    this.updateTileMap();
+  }
+
+  public update(delta: number): void {
+    this.furniture.forEach(furniture => furniture.update(delta));
+  }
+
+  public getFurnitureAt(worldX: number, worldY: number): Furniture | null {
+    const candidates = this.getAllFurniture().sort((a, b) => b.container.depth - a.container.depth);
+
+    return candidates.find(furniture => furniture.hitTest(worldX, worldY)) || null;
+  }
+
+  public getFootprint(data: FurniData, x: number = data.position.x, y: number = data.position.y): Array<{ x: number; y: number }> {
+    const tiles: Array<{ x: number; y: number }> = [];
+
+    for (let dy = 0; dy < data.length; dy++) {
+      for (let dx = 0; dx < data.width; dx++) {
+        tiles.push({ x: x + dx, y: y + dy });
+      }
+    }
+
+    return tiles;
+  }
+
+  public getFurnitureOnTile(x: number, y: number): Furniture[] {
+    return this.getAllFurniture().filter(furniture =>
+      this.getFootprint(furniture.getData()).some(tile => tile.x === x && tile.y === y)
+    );
+  }
+
+  public getFurniture(id: number): Furniture | null {
+    return this.furniture.get(id) || null;
+  }
+
+  public getAllFurniture(): Furniture[] {
+    return Array.from(this.furniture.values());
+  }
+
+  public clear(): void {
+    for (const id of Array.from(this.furniture.keys())) {
+      this.removeFurniture(id);
+    }
+  }
+
+  public destroy(): void {
+    this.clear();
+  }
+}
@@ -0,0 +1,108 @@
+import Phaser from 'phaser';
+import { FurnitureIntent, FurnitureIntentType } from '../data/types/FurnitureData';
+import { Furniture } from '../entities/Furniture';
+import { FurnitureLogicRegistry } from './FurnitureLogicRegistry';
+
+export class FurnitureSelectionManager {
+  private events: Phaser.Events.EventEmitter = new Phaser.Events.EventEmitter();
+  private logicRegistry = FurnitureLogicRegistry.getInstance();
+  private selectedId: number | null = null;
+  private moving: boolean = false;
+
+  public select(furnitureId: number): void {
+    if (this.selectedId === furnitureId) return;
+
+    this.deselect();
+    this.selectedId = furnitureId;
+    this.emit('select', furnitureId);
+  }
+
+  public deselect(): void {
+    if (this.selectedId === null) return;
+
+    const furnitureId = this.selectedId;
+    this.selectedId = null;
+    this.moving = false;
+    this.emit('deselect', furnitureId);
+  }
+
+  public rotate(): void {
+    if (this.selectedId === null) return;
+
+    this.emit('rotate', this.selectedId);
+  }
+
+  public startMove(): void {
+    if (this.selectedId === null) return;
+
+    this.moving = true;
+  }
+
+  public cancelMove(): void {
+    this.moving = false;
+  }
+
+  public move(x: number, y: number): void {
+    if (this.selectedId === null || !this.moving) return;
+
+    this.moving = false;
+    this.emit('move', this.selectedId, { x, y });
+  }
+
+  public pickup(): void {
+    if (this.selectedId === null) return;
+
+    const furnitureId = this.selectedId;
+    this.selectedId = null;
+    this.moving = false;
+    this.emit('pickup', furnitureId);
+  }
+
+  public use(): void {
+    if (this.selectedId === null) return;
+
+    this.emit('use', this.selectedId);
+  }
+
+  public runAction(furniture: Furniture, actionId: string): boolean {
+    if (this.selectedId !== furniture.getId()) return false;
+
+    const intent = this.logicRegistry.createIntent(furniture, actionId);
+    if (!intent) return false;
+
+    this.events.emit('intent', intent);
+    return true;
+  }
+
+  public getSelectedId(): number | null {
+    return this.selectedId;
+  }
+
+  public isMoving(): boolean {
+    return this.moving;
+  }
+
+  public onIntent(callback: (intent: FurnitureIntent) => void, context?: unknown): void {
+    this.events.on('intent', callback, context);
+  }
+
+  public offIntent(callback: (intent: FurnitureIntent) => void, context?: unknown): void {
+    this.events.off('intent', callback, context);
+  }
+
+  private emit(type: FurnitureIntentType, furnitureId: number, position?: { x: number; y: number }): void {
+    const intent: FurnitureIntent = { type, furnitureId };
+
+    if (position) {
+      intent.position = position;
+    }
+
+    this.events.emit('intent', intent);
+  }
+
+  public destroy(): void {
+    this.events.removeAllListeners();
+    this.selectedId = null;
+    this.moving = false;
+  }
+}
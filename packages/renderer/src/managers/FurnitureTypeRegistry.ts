@@ -0,0 +1,42 @@
+import { FurnitureType } from '../data/types/FurnitureData';
+
+export class FurnitureTypeRegistry {
+  private static instance: FurnitureTypeRegistry | null = null;
+
+  private types: Map<number, FurnitureType> = new Map();
+  private typesByClassName: Map<string, FurnitureType> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): FurnitureTypeRegistry {
+    if (!FurnitureTypeRegistry.instance) {
+      FurnitureTypeRegistry.instance = new FurnitureTypeRegistry();
+    }
+    return FurnitureTypeRegistry.instance;
+  }
+
+  public register(type: FurnitureType): void {
+    this.types.set(type.id, type);
+    this.typesByClassName.set(type.className, type);
+  }
+
+  public registerAll(types: FurnitureType[]): void {
+    types.forEach(type => this.register(type));
+  }
+
+  public getType(typeId: number): FurnitureType | null {
+    return this.types.get(typeId) || null;
+  }
+
+  public getTypeByClassName(className: string): FurnitureType | null {
+    return this.typesByClassName.get(className) || null;
+  }
+
+  public hasType(typeId: number): boolean {
+    return this.types.has(typeId);
+  }
+
+  public getAllTypes(): FurnitureType[] {
+    return Array.from(this.types.values());
+  }
+}
@@ -1,6 +1,8 @@
 import Phaser from 'phaser';
 import { TileSpatialGrid } from '../utils/TileSpatialGrid';
 import { RoomManager } from './RoomManager';
+import { FurnitureManager } from './FurnitureManager';
+import { Furniture } from '../entities/Furniture';
 
 export interface TilePosition {
   x: number;
@@ -14,8 +16,10 @@ export class InputManager {
   private isDragging: boolean = false;
   private dragStartX: number = 0;
   private dragStartY: number = 0;
+  private furnitureManager: FurnitureManager | null = null;
 
   private onTileClickCallback?: (tile: TilePosition) => void;
+  private onFurnitureClickCallback?: (furniture: Furniture, tile: TilePosition | null) => void;
   private onTileHoverCallback?: (tile: TilePosition | null) => void;
 
   constructor(scene: Phaser.Scene, roomManager: RoomManager) {
@@ -64,6 +68,12 @@ export class InputManager {
 
   private handleTileClick(pointer: Phaser.Input.Pointer): void {
     const tile = this.getTileAtScreenPosition(pointer.worldX, pointer.worldY);
+    const furniture = this.getFurnitureAtScreenPosition(pointer.worldX, pointer.worldY);
+
+    if (furniture && this.onFurnitureClickCallback) {
+      this.onFurnitureClickCallback(furniture, tile);
+      return;
+    }
 
     if (tile && this.onTileClickCallback) {
       this.onTileClickCallback(tile);
@@ -90,6 +100,14 @@ export class InputManager {
     return this.spatialGrid.getTileAtPosition(worldX, worldY);
   }
 
+  public getFurnitureAtScreenPosition(worldX: number, worldY: number): Furniture | null {
+    return this.furnitureManager ? this.furnitureManager.getFurnitureAt(worldX, worldY) : null;
+  }
+
+  public setFurnitureManager(furnitureManager: FurnitureManager | null): void {
+    this.furnitureManager = furnitureManager;
+  }
+
   public update(): void {
     const pointer = this.scene.input.activePointer;
     this.updateHoverTile(pointer);
@@ -99,6 +117,10 @@ export class InputManager {
     this.onTileClickCallback = callback;
   }
 
+  public onFurnitureClick(callback: (furniture: Furniture, tile: TilePosition | null) => void): void {
+    this.onFurnitureClickCallback = callback;
+  }
+
   public onTileHover(callback: (tile: TilePosition | null) => void): void {
     this.onTileHoverCallback = callback;
   }
@@ -0,0 +1,36 @@
+import { PetType } from '../data/types/PetData';
+
+export class PetTypeRegistry {
+  private static instance: PetTypeRegistry | null = null;
+
+  private types: Map<number, PetType> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): PetTypeRegistry {
+    if (!PetTypeRegistry.instance) {
+      PetTypeRegistry.instance = new PetTypeRegistry();
+    }
+    return PetTypeRegistry.instance;
+  }
+
+  public register(type: PetType): void {
+    this.types.set(type.id, type);
+  }
+
+  public registerAll(types: PetType[]): void {
+    types.forEach(type => this.register(type));
+  }
+
+  public getType(id: number): PetType | null {
+    return this.types.get(id) || null;
+  }
+
+  public hasType(id: number): boolean {
+    return this.types.has(id);
+  }
+
+  public getAllTypes(): PetType[] {
+    return Array.from(this.types.values());
+  }
+}
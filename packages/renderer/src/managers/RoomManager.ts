@@ -1,6 +1,12 @@
-import { RoomData, Tile } from '../data/types/RoomData';
+import { DEFAULT_AVATAR_FIGURE } from '../data/types/FigureData';
+import { DEFAULT_PET_FIGURE } from '../data/types/PetData';
+import { AvatarData, BotData, FurniData, PetData, RoomData, RoomObjectCategory, Tile, WallItemData } from '../data/types/RoomData';
+import { Vector3 } from '../data/types/Vector3';
+import { WallPlacement } from '../systems/WallPlacement';
 
 export class RoomManager {
+  private static readonly DEFAULT_BOT_PHRASE_INTERVAL = 15000;
+
   private roomData: RoomData;
 
   constructor(customPattern?: string[]) {
@@ -64,11 +70,56 @@ export class RoomManager {
       floorType: '101',
       doorTile,
       tiles,
-      furniture: [],
-      avatars: []
+      furniture: customPattern ? [] : this.createDefaultFurniture(),
+      wallItems: [],
+      avatars: customPattern ? [] : this.createDefaultAvatars(),
+      pets: []
     };
   }
 
+  private createDefaultAvatars(): AvatarData[] {
+    const avatars: Array<[number, string, string, number, number, number]> = [
+      [2, 'Frank', 'hd-185-3.hr-2068-45.ch-2050-72', 8, 4, 4],
+      [3, 'Bella', 'hd-600-2.hr-2096-33.ch-2050-82', 5, 6, 2]
+    ];
+
+    return avatars.map(([id, username, figure, x, y, direction]) => ({
+      id,
+      userId: id,
+      username,
+      figure,
+      posture: 'std',
+      gesture: null,
+      headDirection: direction,
+      direction,
+      position: new Vector3(x, y, 0),
+      category: RoomObjectCategory.UNIT
+    }));
+  }
+
+  private createDefaultFurniture(): FurniData[] {
+    const items: Array<[number, number, number, number]> = [
+      [1, 4, 8, 2],
+      [2, 6, 8, 6],
+      [3, 9, 2, 4],
+      [4, 3, 10, 0],
+      [5, 4, 10, 0]
+    ];
+
+    return items.map(([typeId, x, y, direction], index) => ({
+      id: index + 1,
+      typeId,
+      position: new Vector3(x, y, 0),
+      direction,
+      category: RoomObjectCategory.FLOOR,
+      state: 0,
+      width: 1,
+      length: 1,
+      ownerId: 1,
+      ownerName: 'User_Avatar'
+    }));
+  }
+
   private calculateDoorTile(tiles: Tile[][]): { x: number; y: number } | undefined {
     for (let y = 0; y < tiles.length; y++) {
       for (let x = 0; x < tiles[y].length; x++) {
@@ -125,8 +176,95 @@ export class RoomManager {
 
   public async loadFromJSON(url: string): Promise<void> {
     const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load room: ${url}`);
+    }
+
     const data = await response.json();
-    this.loadRoom(data);
+    const room: RoomData = data.tiles ? data : { ...this.createDefaultRoom(data.floorPlan), ...data };
+
+    this.loadRoom({
+      ...room,
+      furniture: this.parseFurniture(data.furniture || []),
+      wallItems: this.parseWallItems(data.wallItems || []),
+      avatars: this.parseAvatars(data.avatars || []),
+      pets: this.parsePets(data.pets || []),
+      bots: this.parseBots(data.bots || [])
+    });
+  }
+
+  private parseFurniture(items: Array<Partial<FurniData> & Pick<FurniData, 'id' | 'typeId' | 'position'>>): FurniData[] {
+    return items.map(item => ({
+      ...item,
+      position: new Vector3(item.position.x, item.position.y, item.position.z || 0),
+      direction: item.direction ?? 0,
+      category: RoomObjectCategory.FLOOR,
+      state: item.state ?? 0,
+      width: item.width ?? 1,
+      length: item.length ?? 1
+    }));
+  }
+
+  private parseAvatars(avatars: Array<Partial<AvatarData> & Pick<AvatarData, 'id' | 'username' | 'position'>>): AvatarData[] {
+    return avatars.map(avatar => {
+      const direction = avatar.direction ?? 2;
+
+      return {
+        ...avatar,
+        userId: avatar.userId ?? avatar.id,
+        figure: avatar.figure || DEFAULT_AVATAR_FIGURE,
+        posture: avatar.posture || 'std',
+        gesture: avatar.gesture || null,
+        headDirection: avatar.headDirection ?? direction,
+        direction,
+        position: new Vector3(avatar.position.x, avatar.position.y, avatar.position.z || 0),
+        category: RoomObjectCategory.UNIT
+      };
+    });
+  }
+
+  private parseBots(bots: Array<Partial<BotData> & Pick<BotData, 'id' | 'username' | 'position'>>): BotData[] {
+    const avatars = this.parseAvatars(bots);
+
+    return bots.map((bot, index) => ({
+      ...avatars[index],
+      route: bot.route?.steps?.length
+        ? { ...bot.route, mode: bot.route.mode === 'pingpong' ? 'pingpong' : 'loop' }
+        : undefined,
+      phrases: bot.phrases?.phrases?.length
+        ? { ...bot.phrases, interval: bot.phrases.interval ?? RoomManager.DEFAULT_BOT_PHRASE_INTERVAL }
+        : undefined
+    }));
+  }
+
+  private parsePets(pets: Array<Partial<PetData> & Pick<PetData, 'id' | 'name' | 'position'>>): PetData[] {
+    return pets.map(pet => ({
+      ...pet,
+      figure: pet.figure || DEFAULT_PET_FIGURE,
+      posture: pet.posture || 'std',
+      direction: pet.direction ?? 2,
+      position: new Vector3(pet.position.x, pet.position.y, pet.position.z || 0),
+      category: RoomObjectCategory.UNIT
+    }));
+  }
+
+  private parseWallItems(items: Array<Omit<WallItemData, 'location'> & { location: WallItemData['location'] | string }>): WallItemData[] {
+    const wallItems: WallItemData[] = [];
+
+    for (const item of items) {
+      const location = typeof item.location === 'string'
+        ? WallPlacement.parseLocation(item.location)
+        : item.location;
+
+      if (!location) {
+        console.warn(`[RoomManager] Invalid wall location for item ${item.id}: ${item.location}`);
+        continue;
+      }
+
+      wallItems.push({ ...item, location });
+    }
+
+    return wallItems;
   }
 
   public getWidth(): number {
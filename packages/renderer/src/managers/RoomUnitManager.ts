@@ -0,0 +1,339 @@
+import Phaser from 'phaser';
+import { AvatarData, BotData, PetData } from '../data/types/RoomData';
+import { RoomUnitType } from '../data/types/RoomUnitData';
+import { DepthManager } from '../engine/DepthManager';
+import { Bot } from '../entities/Bot';
+import { HabboAvatarSprite } from '../entities/HabboAvatarSprite';
+import { Pet } from '../entities/Pet';
+import { RoomUnit } from '../entities/RoomUnit';
+import { PathFinder } from '../systems/PathFinder';
+import { UnitMovementController } from '../systems/UnitMovementController';
+
+export class RoomUnitManager {
+  private scene: Phaser.Scene;
+  private units: Map<number, HabboAvatarSprite> = new Map();
+  private unitData: Map<number, AvatarData> = new Map();
+  private pets: Map<number, Pet> = new Map();
+  private petData: Map<number, PetData> = new Map();
+  private bots: Map<number, Bot> = new Map();
+  private botData: Map<number, BotData> = new Map();
+  private movementControllers: Map<RoomUnit, UnitMovementController> = new Map();
+  private pathFinder: PathFinder | null = null;
+  private onUnitChatCallback?: (unit: RoomUnit, message: string) => void;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+  }
+
+  public onUnitChat(callback: (unit: RoomUnit, message: string) => void): void {
+    this.onUnitChatCallback = callback;
+  }
+
+  public setPathFinder(pathFinder: PathFinder | null): void {
+    this.pathFinder = pathFinder;
+
+    this.getAllRoomUnits().forEach(unit => {
+      const controller = this.movementControllers.get(unit);
+
+      if (controller && pathFinder) {
+        controller.setPathFinder(pathFinder);
+      } else if (controller) {
+        controller.destroy();
+        this.movementControllers.delete(unit);
+      } else {
+        this.attachMovementController(unit);
+      }
+    });
+
+    this.pets.forEach(pet => this.startPetWandering(pet));
+    this.bots.forEach((bot, id) => this.startBotRoute(bot, this.botData.get(id)!));
+  }
+
+  public setUnits(avatars: AvatarData[]): void {
+    for (const id of Array.from(this.units.keys())) {
+      this.removeUnit(id);
+    }
+
+    avatars.forEach(avatar => this.addUnit(avatar));
+  }
+
+  public setPets(pets: PetData[]): void {
+    for (const id of Array.from(this.pets.keys())) {
+      this.removePet(id);
+    }
+
+    pets.forEach(pet => this.addPet(pet));
+  }
+
+  public addUnit(data: AvatarData): HabboAvatarSprite {
+    if (this.units.has(data.id)) {
+      this.removeUnit(data.id);
+    }
+
+    const { x, y, z } = data.position;
+    const unit = new HabboAvatarSprite(this.scene, data.id, data.username, x, y, z, data.figure);
+
+    this.applyAvatarData(unit, data);
+    this.attachMovementController(unit);
+
+    this.units.set(data.id, unit);
+    this.unitData.set(data.id, data);
+    this.updateDepth(unit);
+
+    return unit;
+  }
+
+  private applyAvatarData(unit: HabboAvatarSprite, data: AvatarData): void {
+    if (data.posture === 'wlk') {
+      unit.setDirection(data.direction);
+    } else {
+      unit.setPosture(data.posture, data.direction);
+    }
+
+    unit.setHeadDirection(data.headDirection ?? data.direction);
+
+    if (data.gesture) {
+      unit.playGesture(data.gesture);
+    }
+
+    if (data.effect) {
+      unit.setEffect(data.effect);
+    }
+
+    if (data.dance) {
+      unit.setDance(data.dance);
+    }
+
+    unit.setNameTagVisible(true);
+    data.position = unit.getPosition();
+  }
+
+  public removeUnit(id: number): void {
+    const unit = this.units.get(id);
+    if (!unit) return;
+
+    this.detachMovementController(unit);
+    unit.destroy();
+    this.units.delete(id);
+    this.unitData.delete(id);
+  }
+
+  public setBots(bots: BotData[]): void {
+    for (const id of Array.from(this.bots.keys())) {
+      this.removeBot(id);
+    }
+
+    bots.forEach(bot => this.addBot(bot));
+  }
+
+  public addBot(data: BotData): Bot {
+    if (this.bots.has(data.id)) {
+      this.removeBot(data.id);
+    }
+
+    const { x, y, z } = data.position;
+    const bot = new Bot(this.scene, data.id, data.username, x, y, z, data.figure);
+
+    this.applyAvatarData(bot, data);
+    this.attachMovementController(bot);
+    this.startBotRoute(bot, data);
+
+    bot.setPhrases(data.phrases || null);
+    bot.onChat(message => this.onUnitChatCallback?.(bot, message));
+
+    this.bots.set(data.id, bot);
+    this.botData.set(data.id, data);
+    this.updateDepth(bot);
+
+    return bot;
+  }
+
+  private startBotRoute(bot: Bot, data: BotData): void {
+    if (!data.route) return;
+
+    const movement = this.movementControllers.get(bot);
+
+    if (movement) {
+      bot.startRoute(data.route, movement);
+    } else {
+      bot.stopRoute();
+    }
+  }
+
+  private startPetWandering(pet: Pet): void {
+    const movement = this.movementControllers.get(pet);
+
+    if (movement) {
+      pet.startWandering(movement);
+    } else {
+      pet.stopWandering();
+    }
+  }
+
+  public removeBot(id: number): void {
+    const bot = this.bots.get(id);
+    if (!bot) return;
+
+    this.detachMovementController(bot);
+    bot.destroy();
+    this.bots.delete(id);
+    this.botData.delete(id);
+  }
+
+  public addPet(data: PetData): Pet {
+    if (this.pets.has(data.id)) {
+      this.removePet(data.id);
+    }
+
+    const { x, y, z } = data.position;
+    const pet = new Pet(this.scene, data.id, data.name, x, y, z, data.figure);
+
+    pet.setPetPosture(data.posture, data.direction);
+    pet.setNameTagVisible(true);
+    this.attachMovementController(pet);
+    this.startPetWandering(pet);
+
+    data.position = pet.getPosition();
+
+    this.pets.set(data.id, pet);
+    this.petData.set(data.id, data);
+    this.updateDepth(pet);
+
+    return pet;
+  }
+
+  public removePet(id: number): void {
+    const pet = this.pets.get(id);
+    if (!pet) return;
+
+    this.detachMovementController(pet);
+    pet.destroy();
+    this.pets.delete(id);
+    this.petData.delete(id);
+  }
+
+  public update(time: number, delta: number): void {
+    this.units.forEach(unit => {
+      unit.update(time, delta);
+      this.updateDepth(unit);
+    });
+
+    this.pets.forEach(pet => {
+      pet.update(time, delta);
+      this.updateDepth(pet);
+    });
+
+    this.bots.forEach(bot => {
+      bot.update(time, delta);
+      this.updateDepth(bot);
+    });
+
+    this.movementControllers.forEach(controller => controller.update(delta));
+  }
+
+  private attachMovementController(unit: RoomUnit): void {
+    if (!this.pathFinder) return;
+
+    const controller = new UnitMovementController(
+      unit,
+      this.pathFinder,
+      (x, y) => this.isTileOccupied(x, y, unit)
+    );
+
+    this.movementControllers.set(unit, controller);
+  }
+
+  private detachMovementController(unit: RoomUnit): void {
+    this.movementControllers.get(unit)?.destroy();
+    this.movementControllers.delete(unit);
+  }
+
+  public getMovementController(unit: RoomUnit): UnitMovementController | null {
+    return this.movementControllers.get(unit) || null;
+  }
+
+  public isTileOccupied(x: number, y: number, exclude?: RoomUnit): boolean {
+    return this.getAllRoomUnits().some(unit => {
+      if (unit === exclude) return false;
+
+      const tile = unit.getTilePosition();
+      const next = unit.getNextTile();
+
+      return (tile.x === x && tile.y === y) || (next?.x === x && next?.y === y);
+    });
+  }
+
+  private getAllRoomUnits(): RoomUnit[] {
+    return [...this.units.values(), ...this.bots.values(), ...this.pets.values()];
+  }
+
+  private updateDepth(unit: RoomUnit): void {
+    const { x, y, z } = unit.getPosition();
+
+    DepthManager.updateUnitDepth(unit.container, x, y, z);
+  }
+
+  public getUnitType(unit: RoomUnit): RoomUnitType | null {
+    const id = unit.getId();
+
+    if (this.units.get(id) === unit) return 'avatar';
+    if (this.bots.get(id) === unit) return 'bot';
+    if (this.pets.get(id) === unit) return 'pet';
+
+    return null;
+  }
+
+  public getUnit(id: number): HabboAvatarSprite | null {
+    return this.units.get(id) || null;
+  }
+
+  public getUnitData(id: number): AvatarData | null {
+    return this.unitData.get(id) || null;
+  }
+
+  public getAllUnits(): HabboAvatarSprite[] {
+    return Array.from(this.units.values());
+  }
+
+  public getBot(id: number): Bot | null {
+    return this.bots.get(id) || null;
+  }
+
+  public getBotData(id: number): BotData | null {
+    return this.botData.get(id) || null;
+  }
+
+  public getAllBots(): Bot[] {
+    return Array.from(this.bots.values());
+  }
+
+  public getPet(id: number): Pet | null {
+    return this.pets.get(id) || null;
+  }
+
+  public getPetData(id: number): PetData | null {
+    return this.petData.get(id) || null;
+  }
+
+  public getAllPets(): Pet[] {
+    return Array.from(this.pets.values());
+  }
+
+  public clear(): void {
+    for (const id of Array.from(this.units.keys())) {
+      this.removeUnit(id);
+    }
+
+    for (const id of Array.from(this.pets.keys())) {
+      this.removePet(id);
+    }
+
+    for (const id of Array.from(this.bots.keys())) {
+      this.removeBot(id);
+    }
+  }
+
+  public destroy(): void {
+    this.clear();
+  }
+}
@@ -0,0 +1,154 @@
+import Phaser from 'phaser';
+import { WallItemData, WallLocation } from '../data/types/RoomData';
+import { WallMesh } from '../data/types/MeshData';
+import { WallItem } from '../entities/WallItem';
+import { AssetLoader } from '../systems/AssetLoader';
+import { WallPlacement } from '../systems/WallPlacement';
+import { WallRenderer } from '../systems/WallRenderer';
+import { AssetManager } from './AssetManager';
+import { FurnitureTypeRegistry } from './FurnitureTypeRegistry';
+
+export class WallItemManager {
+  private scene: Phaser.Scene;
+  private wallItems: Map<number, WallItem> = new Map();
+  private assetManager = AssetManager.getInstance();
+  private typeRegistry = FurnitureTypeRegistry.getInstance();
+  private wallMeshes: WallMesh[] = [];
+  private wallMasks: Map<WallMesh, Phaser.GameObjects.Graphics> = new Map();
+  private wallTop: number = 0;
+  private useBundle: boolean;
+
+  constructor(scene: Phaser.Scene, useBundle: boolean = true) {
+    this.scene = scene;
+    this.useBundle = useBundle;
+  }
+
+  public setWalls(wallMeshes: WallMesh[], wallRenderer: WallRenderer): void {
+    this.destroyMasks();
+
+    this.wallMeshes = wallMeshes;
+    this.wallTop = wallRenderer.getWallTop();
+
+    for (const mesh of wallMeshes) {
+      const graphics = this.scene.make.graphics({}, false);
+      graphics.fillStyle(0xffffff);
+      graphics.fillPoints(wallRenderer.getWallFace(mesh).points, true);
+      this.wallMasks.set(mesh, graphics);
+    }
+
+    this.wallItems.forEach(item => this.placeWallItem(item, item.getLocation()));
+  }
+
+  public setWallItems(items: WallItemData[]): void {
+    this.clear();
+    items.forEach(item => this.addWallItem(item));
+  }
+
+  public addWallItem(data: WallItemData): WallItem | null {
+    const type = this.typeRegistry.getType(data.typeId);
+    if (!type) {
+      console.warn(`[WallItemManager] Unknown furniture type: ${data.typeId}`);
+      return null;
+    }
+
+    if (!this.canPlaceAt(data.location)) {
+      console.warn(`[WallItemManager] Invalid wall location for item ${data.id}: ${WallPlacement.formatLocation(data.location)}`);
+      return null;
+    }
+
+    if (this.wallItems.has(data.id)) {
+      this.removeWallItem(data.id);
+    }
+
+    const wallItem = new WallItem(this.scene, data, type.className);
+    this.wallItems.set(data.id, wallItem);
+    this.placeWallItem(wallItem, data.location);
+
+    if (AssetLoader.isLoaded('furniture', type.className)) {
+      this.renderWallItem(wallItem);
+    } else {
+      AssetLoader.loadFurniture(this.scene, type.className, this.useBundle)
+        .then(() => {
+          if (this.wallItems.get(data.id) !== wallItem) return;
+
+          this.renderWallItem(wallItem);
+        })
+        .catch(error => {
+          console.error(`[WallItemManager] Failed to load wall item: ${type.className}`, error);
+        });
+    }
+
+    return wallItem;
+  }
+
+  private renderWallItem(wallItem: WallItem): void {
+    wallItem.render();
+
+    if (wallItem.isRendered()) {
+      this.assetManager.addReference('furniture', wallItem.getClassName());
+    }
+  }
+
+  public moveWallItem(id: number, location: WallLocation): boolean {
+    const wallItem = this.wallItems.get(id);
+    if (!wallItem || !this.canPlaceAt(location)) return false;
+
+    this.placeWallItem(wallItem, location);
+    return true;
+  }
+
+  public canPlaceAt(location: WallLocation): boolean {
+    const wall = WallPlacement.findWall(this.wallMeshes, location);
+
+    return wall !== null && WallPlacement.isValidOffset(location, this.wallTop - wall.position.z);
+  }
+
+  private placeWallItem(wallItem: WallItem, location: WallLocation): void {
+    const wall = WallPlacement.findWall(this.wallMeshes, location);
+    const mask = wall ? this.wallMasks.get(wall) : undefined;
+
+    wallItem.setLocation(location, this.wallTop);
+    wallItem.setClipMask(mask ? mask.createGeometryMask() : null);
+    wallItem.container.setVisible(wall !== null);
+  }
+
+  public removeWallItem(id: number): void {
+    const wallItem = this.wallItems.get(id);
+    if (!wallItem) return;
+
+    if (wallItem.isRendered()) {
+      this.assetManager.removeReference('furniture', wallItem.getClassName());
+    }
+
+    wallItem.destroy();
+    this.wallItems.delete(id);
+  }
+
+  public update(delta: number): void {
+    this.wallItems.forEach(wallItem => wallItem.update(delta));
+  }
+
+  public getWallItem(id: number): WallItem | null {
+    return this.wallItems.get(id) || null;
+  }
+
+  public getAllWallItems(): WallItem[] {
+    return Array.from(this.wallItems.values());
+  }
+
+  public clear(): void {
+    for (const id of Array.from(this.wallItems.keys())) {
+      this.removeWallItem(id);
+    }
+  }
+
+  private destroyMasks(): void {
+    this.wallMasks.forEach(graphics => graphics.destroy());
+    this.wallMasks.clear();
+  }
+
+  public destroy(): void {
+    this.clear();
+    this.destroyMasks();
+  }
+}
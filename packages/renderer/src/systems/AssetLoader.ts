@@ -19,6 +19,16 @@ export interface HabboAssetMetadata {
   };
 }
 
+export interface ResolvedAsset {
+  name: string;
+  source: string;
+  frameKey: string;
+  x: number;
+  y: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
 export class AssetLoader {
   private static assetManager = AssetManager.getInstance();
 
@@ -60,7 +70,8 @@ export class AssetLoader {
     const collection = this.assetManager.getCollection(type, assetName);
     if (!collection) return null;
 
-    const frameKey = this.findFrameForDirection(metadata as any, direction);
+    const resolved = this.findAssetForDirection(metadata as HabboAssetMetadata, direction);
+    const frameKey = resolved ? resolved.frameKey : Object.keys(metadata.spritesheet.frames)[0];
     if (!frameKey) return null;
 
     const frameData = metadata.spritesheet.frames[frameKey];
@@ -69,11 +80,9 @@ export class AssetLoader {
     const texture = scene.textures.get(collection.textureKey);
     if (!texture) return null;
 
-    const sourceKey = `${assetName}_${frameKey}`;
-
-    if (!texture.has(sourceKey)) {
+    if (!texture.has(frameKey)) {
       texture.add(
-        sourceKey,
+        frameKey,
         0,
         frameData.frame.x,
         frameData.frame.y,
@@ -82,43 +91,82 @@ export class AssetLoader {
       );
     }
 
-    const sprite = scene.add.image(x, y, collection.textureKey, sourceKey);
+    const sprite = scene.add.image(x, y, collection.textureKey, frameKey);
 
-    const assetInfo = this.getAssetInfo(metadata as any, frameKey);
-    if (assetInfo) {
-      sprite.setOrigin(0.5, 1);
-      sprite.setPosition(x + (assetInfo.x || 0), y + (assetInfo.y || 0));
+    if (resolved) {
+      sprite.setOrigin(0, 0);
+      sprite.setFlipX(resolved.flipH);
+      sprite.setPosition(
+        x + (resolved.flipH ? resolved.x - frameData.frame.w : -resolved.x),
+        y - resolved.y
+      );
     }
 
     return sprite;
   }
 
-  private static findFrameForDirection(metadata: HabboAssetMetadata, direction: number): string | null {
-    const directionMap: Record<number, number> = {
-      0: 2,
-      1: 2,
-      2: 2,
-      3: 4,
-      4: 4,
-      5: 0,
-      6: 0,
-      7: 0
+  public static resolveAsset(metadata: HabboAssetData, assetName: string): ResolvedAsset | null {
+    const asset = metadata.assets?.[assetName];
+    if (!asset || !metadata.spritesheet) return null;
+
+    const visited = new Set<string>();
+    let sourceName = assetName;
+
+    while (!metadata.spritesheet.frames[`${metadata.name}_${sourceName}`]) {
+      const source = metadata.assets?.[sourceName]?.source;
+      if (!source || visited.has(source)) return null;
+
+      visited.add(source);
+      sourceName = source;
+    }
+
+    return {
+      name: assetName,
+      source: sourceName,
+      frameKey: `${metadata.name}_${sourceName}`,
+      x: asset.x || 0,
+      y: asset.y || 0,
+      flipH: asset.flipH === true,
+      flipV: asset.flipV === true
     };
+  }
+
+  public static getValidDirections(metadata: HabboAssetData): number[] {
+    const angles: number[] | undefined = metadata.logic?.model?.directions;
+
+    if (angles && angles.length > 0) {
+      return angles.map(angle => Math.round(angle / 45) % 8).sort((a, b) => a - b);
+    }
+
+    const visualization = metadata.visualizations?.find(v => v.size === 64);
+    const directions = Object.keys(visualization?.directions || {}).map(Number);
 
-    const habboDirection = directionMap[direction] || 2;
+    return directions.length > 0 ? directions.sort((a, b) => a - b) : [0, 2, 4, 6];
+  }
+
+  public static getNearestDirection(metadata: HabboAssetData, direction: number): number {
+    const directions = this.getValidDirections(metadata);
+    if (directions.includes(direction)) return direction;
+
+    let nearest = directions[0];
+    let nearestDistance = Infinity;
 
-    for (const frameName in metadata.spritesheet.frames) {
-      if (frameName.includes(`_a_${habboDirection}_0`)) {
-        return frameName;
+    for (const candidate of directions) {
+      const diff = Math.abs(candidate - direction) % 8;
+      const distance = Math.min(diff, 8 - diff);
+
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
       }
     }
 
-    const firstFrame = Object.keys(metadata.spritesheet.frames)[0];
-    return firstFrame || null;
+    return nearest;
   }
 
-  private static getAssetInfo(metadata: HabboAssetMetadata, frameName: string): any {
-    const cleanFrameName = frameName.replace(`${metadata.name}_${metadata.name}_`, `${metadata.name}_`);
-    return metadata.assets[cleanFrameName] || null;
+  private static findAssetForDirection(metadata: HabboAssetMetadata, direction: number): ResolvedAsset | null {
+    const validDirection = this.getNearestDirection(metadata, direction);
+
+    return this.resolveAsset(metadata, `${metadata.name}_64_a_${validDirection}_0`);
   }
 }
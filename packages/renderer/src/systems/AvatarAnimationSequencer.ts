@@ -0,0 +1,80 @@
+import { AvatarAnimationFrame, AvatarAnimationSequence } from '../data/types/AvatarAnimationData';
+import { RoomClock } from '../engine/RoomClock';
+import { FigureComposer } from './FigureComposer';
+
+export class AvatarAnimationSequencer {
+  private static readonly PART_GROUPS: Record<string, string[]> = {
+    head: FigureComposer.HEAD_PARTS,
+    torso: ['bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa'],
+    leftArm: ['lh', 'ls', 'lc'],
+    rightArm: ['rh', 'rs', 'rc']
+  };
+
+  private sequence: AvatarAnimationSequence;
+  private loopLength: number;
+  private tick: number = 0;
+  private elapsed: number = 0;
+
+  constructor(sequence: AvatarAnimationSequence) {
+    this.sequence = sequence;
+    this.loopLength = Object.values(sequence.parts)
+      .map(frames => Math.max(1, frames.length))
+      .reduce((length, frames) => length * frames / this.gcd(length, frames), 1);
+  }
+
+  public getSequenceId(): string {
+    return this.sequence.id;
+  }
+
+  public update(delta: number): boolean {
+    const repeat = this.getFrameRepeat();
+    const interval = RoomClock.getTickInterval();
+    let changed = false;
+
+    this.elapsed += delta;
+
+    while (this.elapsed >= interval) {
+      this.elapsed -= interval;
+      this.tick++;
+
+      if (this.tick % repeat === 0) {
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  public getFrameIndex(): number {
+    return Math.floor(this.tick / this.getFrameRepeat()) % this.loopLength;
+  }
+
+  public getPartFrame(type: string): AvatarAnimationFrame | null {
+    const frames = this.getPartFrames(type);
+    if (!frames || frames.length === 0) return null;
+
+    return frames[Math.floor(this.tick / this.getFrameRepeat()) % frames.length];
+  }
+
+  private getPartFrames(type: string): AvatarAnimationFrame[] | null {
+    if (this.sequence.parts[type]) {
+      return this.sequence.parts[type];
+    }
+
+    for (const [group, types] of Object.entries(AvatarAnimationSequencer.PART_GROUPS)) {
+      if (types.includes(type) && this.sequence.parts[group]) {
+        return this.sequence.parts[group];
+      }
+    }
+
+    return null;
+  }
+
+  private gcd(a: number, b: number): number {
+    return b === 0 ? a : this.gcd(b, a % b);
+  }
+
+  private getFrameRepeat(): number {
+    return Math.max(1, this.sequence.frameRepeat || 1);
+  }
+}
@@ -0,0 +1,64 @@
+import Phaser from 'phaser';
+import { AvatarEffectAnimation, AvatarEffectFrame, AvatarEffectSprite, AvatarEffectType } from '../data/types/EffectData';
+import { AssetManager } from '../managers/AssetManager';
+import { AvatarEffectRegistry } from '../managers/AvatarEffectRegistry';
+import { AssetLoader } from './AssetLoader';
+import { FigureComposer } from './FigureComposer';
+import { FurnitureVisualizer } from './FurnitureVisualizer';
+
+export class AvatarEffectComposer {
+  private static assetManager = AssetManager.getInstance();
+  private static registry = AvatarEffectRegistry.getInstance();
+
+  public static readonly DEFAULT_FRAME_INTERVAL = 100;
+
+  public static async loadEffect(scene: Phaser.Scene, effectId: number, useBundle: boolean = true): Promise<AvatarEffectType | null> {
+    const effect = this.registry.getEffect(effectId);
+
+    if (!effect) {
+      console.warn(`[AvatarEffectComposer] Unknown effect: ${effectId}`);
+      return null;
+    }
+
+    await AssetLoader.loadEffect(scene, effect.library, useBundle);
+
+    return effect;
+  }
+
+  public static getAnimation(library: string): AvatarEffectAnimation | null {
+    const animation = this.assetManager.getMetadata('effect', library)?.animation as AvatarEffectAnimation | undefined;
+
+    return animation && Array.isArray(animation.frames) ? animation : null;
+  }
+
+  public static getFrame(animation: AvatarEffectAnimation, index: number): AvatarEffectFrame {
+    if (animation.frames.length === 0) return {};
+
+    return animation.frames[index % animation.frames.length];
+  }
+
+  public static applySprite(
+    scene: Phaser.Scene,
+    image: Phaser.GameObjects.Image,
+    library: string,
+    sprite: AvatarEffectSprite,
+    direction: number,
+    frame: number
+  ): boolean {
+    const source = sprite.directional
+      ? FigureComposer.getSourceDirection(direction)
+      : { direction: 0, flipped: false };
+    const candidates = [
+      `${sprite.member}_${source.direction}_${frame}`,
+      `${sprite.member}_${source.direction}_0`
+    ];
+
+    if (!FigureComposer.applyAsset(scene, image, 'effect', library, candidates, source.flipped)) {
+      return false;
+    }
+
+    image.setBlendMode(FurnitureVisualizer.getBlendMode(sprite.ink || 'NORMAL'));
+
+    return true;
+  }
+}
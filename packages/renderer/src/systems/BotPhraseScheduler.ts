@@ -0,0 +1,43 @@
+import { BotPhraseSchedule } from '../data/types/RoomData';
+
+export class BotPhraseScheduler {
+  private schedule: BotPhraseSchedule;
+  private random: () => number;
+
+  private elapsed: number = 0;
+  private index: number = 0;
+  private onPhraseCallback?: (message: string) => void;
+
+  constructor(schedule: BotPhraseSchedule, random: () => number = Math.random) {
+    this.schedule = schedule;
+    this.random = random;
+  }
+
+  public onPhrase(callback: (message: string) => void): void {
+    this.onPhraseCallback = callback;
+  }
+
+  public update(delta: number): void {
+    const { phrases, interval } = this.schedule;
+    if (phrases.length === 0 || interval <= 0) return;
+
+    this.elapsed += delta;
+    if (this.elapsed < interval) return;
+
+    this.elapsed %= interval;
+    this.onPhraseCallback?.(this.nextPhrase());
+  }
+
+  private nextPhrase(): string {
+    const { phrases } = this.schedule;
+
+    if (this.schedule.random) {
+      return phrases[Math.floor(this.random() * phrases.length)];
+    }
+
+    const phrase = phrases[this.index];
+    this.index = (this.index + 1) % phrases.length;
+
+    return phrase;
+  }
+}
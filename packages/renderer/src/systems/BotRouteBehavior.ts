@@ -0,0 +1,89 @@
+import { BotRoute } from '../data/types/RoomData';
+import { RoomUnit } from '../entities/RoomUnit';
+import { UnitMovementController } from './UnitMovementController';
+
+export class BotRouteBehavior {
+  private static readonly DEFAULT_DWELL = 2000;
+  private static readonly RETRY_DELAY = 1000;
+
+  private unit: RoomUnit;
+  private movement: UnitMovementController;
+  private route: BotRoute;
+
+  private enabled: boolean = true;
+  private index: number = 0;
+  private step: number = 1;
+  private dwellRemaining: number = 0;
+
+  constructor(unit: RoomUnit, movement: UnitMovementController, route: BotRoute) {
+    this.unit = unit;
+    this.movement = movement;
+    this.route = route;
+
+    this.movement.onGiveUp(() => this.skipStep());
+  }
+
+  public getMovementController(): UnitMovementController {
+    return this.movement;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public getRoute(): BotRoute {
+    return this.route;
+  }
+
+  public getCurrentStep(): number {
+    return this.index;
+  }
+
+  public update(delta: number): void {
+    if (!this.enabled || this.route.steps.length === 0) return;
+    if (this.unit.isMoving() || this.movement.isReplanning()) return;
+
+    if (this.dwellRemaining > 0) {
+      this.dwellRemaining -= delta;
+      return;
+    }
+
+    const target = this.route.steps[this.index];
+    const { x, y } = this.unit.getTilePosition();
+
+    if (x === target.x && y === target.y) {
+      this.dwellRemaining = target.dwell ?? this.route.dwell ?? BotRouteBehavior.DEFAULT_DWELL;
+      this.advance();
+      return;
+    }
+
+    if (!this.movement.moveTo(target.x, target.y)) {
+      this.skipStep();
+    }
+  }
+
+  private skipStep(): void {
+    this.dwellRemaining = BotRouteBehavior.RETRY_DELAY;
+    this.advance();
+  }
+
+  private advance(): void {
+    const count = this.route.steps.length;
+    if (count < 2) return;
+
+    if (this.route.mode === 'loop') {
+      this.index = (this.index + 1) % count;
+      return;
+    }
+
+    if (this.index + this.step < 0 || this.index + this.step >= count) {
+      this.step = -this.step;
+    }
+
+    this.index += this.step;
+  }
+}
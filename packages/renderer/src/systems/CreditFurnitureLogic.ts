@@ -0,0 +1,31 @@
+import { FurnitureAction, FurnitureIntent, FurnitureLogicHandler } from '../data/types/FurnitureData';
+import { Furniture } from '../entities/Furniture';
+
+export class CreditFurnitureLogic implements FurnitureLogicHandler {
+  public static readonly REDEEM_ACTION = 'redeem';
+
+  public readonly logicType = 'furniture_credit';
+
+  public getCredits(furniture: Furniture): number {
+    const credits = Number(furniture.getLogic()?.credits);
+    return Number.isFinite(credits) && credits > 0 ? credits : 0;
+  }
+
+  public getDetails(furniture: Furniture): Record<string, string | number> {
+    return { credits: this.getCredits(furniture) };
+  }
+
+  public getActions(furniture: Furniture): FurnitureAction[] {
+    const credits = this.getCredits(furniture);
+    if (credits === 0) return [];
+
+    return [{ id: CreditFurnitureLogic.REDEEM_ACTION, label: `Redeem for ${credits} credits` }];
+  }
+
+  public createIntent(furniture: Furniture, actionId: string): FurnitureIntent | null {
+    const credits = this.getCredits(furniture);
+    if (actionId !== CreditFurnitureLogic.REDEEM_ACTION || credits === 0) return null;
+
+    return { type: 'redeem', furnitureId: furniture.getId(), credits };
+  }
+}
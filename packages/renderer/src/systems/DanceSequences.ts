@@ -0,0 +1,57 @@
+import { AvatarAnimationFrame, AvatarAnimationSequence } from '../data/types/AvatarAnimationData';
+
+const bounce = (action: string, offsets: number[], frames: number[] = [0]): AvatarAnimationFrame[] =>
+  offsets.map((dy, index) => ({ action, frame: frames[index % frames.length], dy }));
+
+const sway = (action: string, offsets: number[], frames: number[] = [0]): AvatarAnimationFrame[] =>
+  offsets.map((dx, index) => ({ action, frame: frames[index % frames.length], dx }));
+
+const roll: AvatarAnimationFrame[] = [
+  { action: 'std', dx: 1, dy: 0 },
+  { action: 'std', dx: 0, dy: -1 },
+  { action: 'std', dx: -1, dy: 0 },
+  { action: 'std', dx: 0, dy: -1 }
+];
+
+export const DANCE_SEQUENCES: AvatarAnimationSequence[] = [
+  {
+    id: 'dance.1',
+    frameRepeat: 3,
+    parts: {
+      torso: bounce('std', [0, -2, -3, -2]),
+      head: bounce('std', [0, -2, -3, -2]),
+      leftArm: bounce('wlk', [0, -2, -3, -2], [0, 1, 2, 3]),
+      rightArm: bounce('wlk', [0, -2, -3, -2], [2, 3, 0, 1])
+    }
+  },
+  {
+    id: 'dance.2',
+    frameRepeat: 3,
+    parts: {
+      torso: bounce('std', [0, -4, -8, -4]),
+      head: bounce('std', [0, -4, -8, -4]),
+      leftArm: bounce('wav', [0, -4, -8, -4], [0, 1]),
+      rightArm: bounce('wlk', [0, -4, -8, -4], [0, 2])
+    }
+  },
+  {
+    id: 'dance.3',
+    frameRepeat: 4,
+    parts: {
+      torso: sway('std', [-2, 0, 2, 0]),
+      head: sway('std', [-3, 0, 3, 0]),
+      leftArm: sway('wlk', [-2, 0, 2, 0], [1, 0, 3, 0]),
+      rightArm: sway('wlk', [-2, 0, 2, 0], [3, 0, 1, 0])
+    }
+  },
+  {
+    id: 'dance.4',
+    frameRepeat: 3,
+    parts: {
+      torso: roll,
+      head: roll,
+      leftArm: bounce('wav', [0, -1, 0, -1], [0, 1]),
+      rightArm: bounce('blw', [0, -1, 0, -1], [0, 1])
+    }
+  }
+];
@@ -0,0 +1,155 @@
+import Phaser from 'phaser';
+import { FigureLayer, FigureSet, FigureSetPart } from '../data/types/FigureData';
+import { AssetManager, AssetType } from '../managers/AssetManager';
+import { FigureDataRegistry } from '../managers/FigureDataRegistry';
+import { AssetLoader } from './AssetLoader';
+import { FigureParser } from './FigureParser';
+
+export class FigureComposer {
+  private static assetManager = AssetManager.getInstance();
+  private static figureData = FigureDataRegistry.getInstance();
+
+  public static readonly HEAD_PARTS = ['hd', 'fc', 'ey', 'hr', 'hrb', 'ea', 'fa', 'ha', 'he'];
+
+  private static readonly DRAW_ORDER: Record<number, string[]> = {
+    0: ['lh', 'ls', 'lc', 'bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa', 'rh', 'rs', 'rc', 'hd', 'fc', 'ey', 'hr', 'hrb', 'ea', 'fa', 'ha', 'he'],
+    1: ['lh', 'ls', 'lc', 'bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa', 'rh', 'rs', 'rc', 'hrb', 'hd', 'fc', 'ey', 'hr', 'ea', 'fa', 'ha', 'he'],
+    2: ['lh', 'ls', 'lc', 'bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa', 'rh', 'rs', 'rc', 'hrb', 'hd', 'fc', 'ey', 'hr', 'ea', 'fa', 'ha', 'he'],
+    3: ['bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa', 'lh', 'ls', 'lc', 'rh', 'rs', 'rc', 'hrb', 'hd', 'fc', 'ey', 'hr', 'ea', 'fa', 'ha', 'he'],
+    7: ['lh', 'ls', 'lc', 'rh', 'rs', 'rc', 'bd', 'lg', 'sh', 'ch', 'cc', 'ca', 'wa', 'hd', 'fc', 'ey', 'hr', 'hrb', 'ea', 'fa', 'ha', 'he']
+  };
+
+  public static resolveLayers(figure: string): FigureLayer[] {
+    const layers: FigureLayer[] = [];
+    const hiddenLayers = new Set<string>();
+
+    for (const selection of FigureParser.parse(figure)) {
+      const set = this.figureData.getSet(selection.type, selection.setId);
+
+      if (!set) {
+        console.warn(`[FigureComposer] Unknown figure set: ${selection.type}-${selection.setId}`);
+        continue;
+      }
+
+      set.hiddenLayers?.forEach(layer => hiddenLayers.add(layer));
+
+      for (const part of set.parts) {
+        layers.push({
+          type: part.type,
+          id: part.id,
+          library: set.library,
+          setType: set.type,
+          colors: selection.colors,
+          tint: this.resolveTint(set, part, selection.colors)
+        });
+      }
+    }
+
+    return layers.filter(layer => !hiddenLayers.has(layer.type));
+  }
+
+  private static resolveTint(set: FigureSet, part: FigureSetPart, colors: number[]): number | null {
+    if (!part.colorable || set.paletteId === undefined) return null;
+
+    const colorId = colors[(part.colorIndex || 1) - 1];
+    if (colorId === undefined) return null;
+
+    const color = this.figureData.getColor(set.paletteId, colorId);
+    return color ? parseInt(color.color, 16) : null;
+  }
+
+  public static getLibraries(figure: string): string[] {
+    return Array.from(new Set(this.resolveLayers(figure).map(layer => layer.library)));
+  }
+
+  public static async loadLibraries(scene: Phaser.Scene, figure: string, useBundle: boolean = true): Promise<void> {
+    await Promise.all(
+      this.getLibraries(figure).map(library =>
+        AssetLoader.loadFigure(scene, library, useBundle).catch(error => {
+          console.error(`[FigureComposer] Failed to load figure library: ${library}`, error);
+        })
+      )
+    );
+  }
+
+  public static getSourceDirection(direction: number): { direction: number; flipped: boolean } {
+    if (direction >= 4 && direction <= 6) {
+      return { direction: 6 - direction, flipped: true };
+    }
+
+    return { direction, flipped: false };
+  }
+
+  public static sortLayers(layers: FigureLayer[], direction: number): FigureLayer[] {
+    const order = this.DRAW_ORDER[this.getSourceDirection(direction).direction] || this.DRAW_ORDER[2];
+    const rank = (layer: FigureLayer) => {
+      const index = order.indexOf(layer.type);
+      return index === -1 ? order.length : index;
+    };
+
+    return [...layers].sort((a, b) => rank(a) - rank(b));
+  }
+
+  public static applyLayer(
+    scene: Phaser.Scene,
+    image: Phaser.GameObjects.Image,
+    layer: FigureLayer,
+    action: string,
+    direction: number,
+    frame: number
+  ): boolean {
+    const source = this.getSourceDirection(direction);
+    const candidates = [
+      `h_${action}_${layer.type}_${layer.id}_${source.direction}_${frame}`,
+      `h_${action}_${layer.type}_${layer.id}_${source.direction}_0`,
+      `h_std_${layer.type}_${layer.id}_${source.direction}_0`
+    ];
+
+    if (!this.applyAsset(scene, image, 'figure', layer.library, candidates, source.flipped)) {
+      return false;
+    }
+
+    if (layer.tint === null) {
+      image.clearTint();
+    } else {
+      image.setTint(layer.tint);
+    }
+
+    return true;
+  }
+
+  public static applyAsset(
+    scene: Phaser.Scene,
+    image: Phaser.GameObjects.Image,
+    type: AssetType,
+    library: string,
+    candidates: string[],
+    sourceFlipped: boolean
+  ): boolean {
+    const metadata = this.assetManager.getMetadata(type, library);
+    const collection = this.assetManager.getCollection(type, library);
+    if (!metadata || !collection) return false;
+
+    for (const assetName of candidates) {
+      const asset = AssetLoader.resolveAsset(metadata, assetName);
+      const frameData = asset ? metadata.spritesheet?.frames[asset.frameKey] : null;
+      if (!asset || !frameData) continue;
+
+      const texture = scene.textures.get(collection.textureKey);
+
+      if (!texture.has(asset.frameKey)) {
+        texture.add(asset.frameKey, 0, frameData.frame.x, frameData.frame.y, frameData.frame.w, frameData.frame.h);
+      }
+
+      const flipped = sourceFlipped !== asset.flipH;
+
+      image.setTexture(collection.textureKey, asset.frameKey);
+      image.setFlipX(flipped);
+      image.setPosition(flipped ? asset.x - frameData.frame.w : -asset.x, -asset.y);
+
+      return true;
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,44 @@
+import { FigurePalette } from '../data/types/FigureData';
+import { FigureDataRegistry } from '../managers/FigureDataRegistry';
+
+interface RawFigurePaletteColor {
+  id: number | string;
+  index: number | string;
+  color: string;
+  selectable?: boolean | number;
+  club?: number | string;
+}
+
+interface RawFigurePalette {
+  id: number | string;
+  colors?: RawFigurePaletteColor[];
+}
+
+interface RawFigurePaletteData {
+  palettes?: RawFigurePalette[];
+}
+
+export class FigurePaletteLoader {
+  public static async load(url: string): Promise<FigurePalette[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load figure palettes: ${url}`);
+    }
+
+    const data: RawFigurePaletteData = await response.json();
+    const palettes: FigurePalette[] = (data.palettes || []).map(palette => ({
+      id: Number(palette.id),
+      colors: (palette.colors || []).map(color => ({
+        id: Number(color.id),
+        index: Number(color.index),
+        color: String(color.color).replace('#', ''),
+        selectable: color.selectable !== false && color.selectable !== 0,
+        club: color.club !== undefined ? Number(color.club) : undefined
+      }))
+    }));
+
+    FigureDataRegistry.getInstance().registerPalettes(palettes);
+
+    return palettes;
+  }
+}
@@ -0,0 +1,28 @@
+import { FigurePartSelection } from '../data/types/FigureData';
+
+export class FigureParser {
+  public static parse(figure: string): FigurePartSelection[] {
+    const selections = new Map<string, FigurePartSelection>();
+
+    for (const entry of figure.split('.')) {
+      const [type, setId, ...colors] = entry.trim().split('-');
+      const id = Number(setId);
+
+      if (!type || !Number.isInteger(id)) continue;
+
+      selections.set(type, {
+        type,
+        setId: id,
+        colors: colors.map(Number).filter(color => Number.isInteger(color))
+      });
+    }
+
+    return Array.from(selections.values());
+  }
+
+  public static stringify(selections: FigurePartSelection[]): string {
+    return selections
+      .map(selection => [selection.type, selection.setId, ...selection.colors].join('-'))
+      .join('.');
+  }
+}
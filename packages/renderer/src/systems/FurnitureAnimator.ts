@@ -0,0 +1,191 @@
+import {
+  FurnitureAnimationData,
+  FurnitureAnimationFrame,
+  FurnitureAnimationLayer
+} from '../data/types/FurnitureData';
+import { RoomClock } from '../engine/RoomClock';
+
+interface LayerPlayback {
+  sequenceIndex: number;
+  repeat: number;
+  loops: number;
+}
+
+export class FurnitureAnimator {
+  private animations: Record<string, FurnitureAnimationData>;
+  private state: number = 0;
+  private animationId: number | null = null;
+  private pendingState: number | null = null;
+  private playback: Map<number, LayerPlayback> = new Map();
+  private elapsed: number = 0;
+
+  constructor(animations: Record<string, FurnitureAnimationData>, state: number = 0) {
+    this.animations = animations;
+    this.state = state;
+    this.play(this.resolveAnimationId(state));
+  }
+
+  public static hasAnimations(animations?: Record<string, FurnitureAnimationData>): boolean {
+    return animations !== undefined && Object.keys(animations).length > 0;
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public getStateCount(): number {
+    return Object.values(this.animations).filter(animation => animation.transitionTo === undefined).length;
+  }
+
+  public setState(state: number): void {
+    if (state === this.state && this.pendingState === null) return;
+
+    const previousState = this.state;
+    const transitionId = this.findTransition(previousState, state);
+
+    this.state = state;
+
+    if (transitionId !== null) {
+      this.pendingState = state;
+      this.play(transitionId);
+    } else {
+      this.pendingState = null;
+      this.play(this.resolveAnimationId(state));
+    }
+  }
+
+  public update(delta: number): boolean {
+    if (this.animationId === null) return false;
+
+    this.elapsed += delta;
+
+    const interval = RoomClock.getTickInterval();
+    let changed = false;
+
+    while (this.elapsed >= interval) {
+      this.elapsed -= interval;
+      changed = this.step() || changed;
+    }
+
+    if (this.pendingState !== null && this.isFinished()) {
+      const state = this.pendingState;
+      this.pendingState = null;
+      this.play(this.resolveAnimationId(state));
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  public getLayerFrames(layerCount: number): FurnitureAnimationFrame[] {
+    const frames: FurnitureAnimationFrame[] = [];
+
+    for (let index = 0; index < layerCount; index++) {
+      const layer = this.getLayer(index);
+      const playback = this.playback.get(index);
+
+      if (!layer || !playback || layer.frameSequence.length === 0) {
+        frames.push({ id: 0 });
+        continue;
+      }
+
+      frames.push(this.toFrame(layer.frameSequence[playback.sequenceIndex]));
+    }
+
+    return frames;
+  }
+
+  private play(animationId: number | null): void {
+    this.animationId = animationId;
+    this.playback.clear();
+    this.elapsed = 0;
+
+    if (animationId === null) return;
+
+    const animation = this.animations[animationId];
+
+    for (const index of Object.keys(animation.layers)) {
+      this.playback.set(Number(index), { sequenceIndex: 0, repeat: 0, loops: 0 });
+    }
+  }
+
+  private step(): boolean {
+    let changed = false;
+
+    this.playback.forEach((playback, index) => {
+      const layer = this.getLayer(index);
+      if (!layer || layer.frameSequence.length <= 1) return;
+
+      const loopCount = layer.loopCount || 0;
+      if (loopCount > 0 && playback.loops >= loopCount) return;
+
+      playback.repeat++;
+      if (playback.repeat < Math.max(1, layer.frameRepeat || 1)) return;
+
+      playback.repeat = 0;
+
+      if (playback.sequenceIndex + 1 < layer.frameSequence.length) {
+        playback.sequenceIndex++;
+        changed = true;
+        return;
+      }
+
+      playback.loops++;
+
+      if (loopCount === 0 || playback.loops < loopCount) {
+        playback.sequenceIndex = 0;
+        changed = true;
+      }
+    });
+
+    return changed;
+  }
+
+  private isFinished(): boolean {
+    for (const [index, playback] of this.playback) {
+      const layer = this.getLayer(index);
+      if (!layer || layer.frameSequence.length <= 1) continue;
+
+      if (playback.loops < Math.max(1, layer.loopCount || 0)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private findTransition(fromState: number, toState: number): number | null {
+    let fallback: number | null = null;
+
+    for (const [id, animation] of Object.entries(this.animations)) {
+      if (animation.transitionTo !== toState) continue;
+
+      if (animation.transitionFrom === fromState) {
+        return Number(id);
+      }
+
+      if (animation.transitionFrom === undefined && fallback === null) {
+        fallback = Number(id);
+      }
+    }
+
+    return fallback;
+  }
+
+  private resolveAnimationId(state: number): number | null {
+    if (this.animations[state]) return state;
+    if (this.animations[0]) return 0;
+
+    return null;
+  }
+
+  private getLayer(index: number): FurnitureAnimationLayer | null {
+    if (this.animationId === null) return null;
+
+    return this.animations[this.animationId]?.layers[index] || null;
+  }
+
+  private toFrame(entry: number | FurnitureAnimationFrame): FurnitureAnimationFrame {
+    return typeof entry === 'number' ? { id: entry } : entry;
+  }
+}
@@ -0,0 +1,113 @@
+import { FurnitureTileInfo, FurnitureTileUsage } from '../data/types/FurnitureData';
+import { Furniture } from '../entities/Furniture';
+import { FurnitureTypeRegistry } from '../managers/FurnitureTypeRegistry';
+import { AssetLoader } from './AssetLoader';
+
+export class FurnitureTileMap {
+  private typeRegistry = FurnitureTypeRegistry.getInstance();
+  private stacks: Map<string, FurnitureTileInfo[]> = new Map();
+
+  public build(furniture: Furniture[]): void {
+    this.stacks.clear();
+
+    for (const item of furniture) {
+      const data = item.getData();
+      const type = this.typeRegistry.getType(data.typeId);
+      const info: FurnitureTileInfo = {
+        furnitureId: data.id,
+        usage: this.resolveUsage(item),
+        direction: data.direction,
+        height: data.position.z + this.getItemHeight(item),
+        stackable: type?.canStack !== false
+      };
+
+      for (let dy = 0; dy < data.length; dy++) {
+        for (let dx = 0; dx < data.width; dx++) {
+          const key = `${data.position.x + dx},${data.position.y + dy}`;
+
+          if (!this.stacks.has(key)) {
+            this.stacks.set(key, []);
+          }
+
+          this.stacks.get(key)!.push(info);
+        }
+      }
+    }
+
+    this.stacks.forEach(stack => stack.sort((a, b) => a.height - b.height));
+  }
+
+  public getStack(x: number, y: number): FurnitureTileInfo[] {
+    return this.stacks.get(`${x},${y}`) || [];
+  }
+
+  public getTileInfo(x: number, y: number, ignoreId?: number): FurnitureTileInfo | null {
+    const stack = this.getStack(x, y);
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].furnitureId !== ignoreId) {
+        return stack[i];
+      }
+    }
+
+    return null;
+  }
+
+  public getStackHeight(x: number, y: number, floorHeight: number, ignoreId?: number): number {
+    const top = this.getTileInfo(x, y, ignoreId);
+    return top ? Math.max(floorHeight, top.height) : floorHeight;
+  }
+
+  public getWalkHeight(x: number, y: number, floorHeight: number): number {
+    const top = this.getTileInfo(x, y);
+    return top && top.usage === 'walkable' ? Math.max(floorHeight, top.height) : floorHeight;
+  }
+
+  public canStackOn(x: number, y: number, ignoreId?: number): boolean {
+    const top = this.getTileInfo(x, y, ignoreId);
+    return top === null || top.stackable;
+  }
+
+  public getUsage(x: number, y: number): FurnitureTileUsage | null {
+    return this.getTileInfo(x, y)?.usage || null;
+  }
+
+  public isBlocked(x: number, y: number): boolean {
+    return this.getUsage(x, y) === 'blocked';
+  }
+
+  public canPassThrough(x: number, y: number): boolean {
+    const usage = this.getUsage(x, y);
+    return usage === null || usage === 'walkable';
+  }
+
+  public isSeat(x: number, y: number): boolean {
+    const usage = this.getUsage(x, y);
+    return usage === 'sit' || usage === 'lay';
+  }
+
+  public clear(): void {
+    this.stacks.clear();
+  }
+
+  private resolveUsage(furniture: Furniture): FurnitureTileUsage {
+    const data = furniture.getData();
+    const type = this.typeRegistry.getType(data.typeId);
+    const logicType = AssetLoader.getMetadata('furniture', furniture.getClassName())?.logicType;
+
+    if (logicType === 'furniture_gate') {
+      return data.state !== 0 ? 'walkable' : 'blocked';
+    }
+
+    if (type?.canLayOn) return 'lay';
+    if (type?.canSitOn) return 'sit';
+    if (type?.canStandOn) return 'walkable';
+
+    return 'blocked';
+  }
+
+  private getItemHeight(furniture: Furniture): number {
+    const metadata = AssetLoader.getMetadata('furniture', furniture.getClassName());
+    return metadata?.logic?.model?.dimensions?.z || 0;
+  }
+}
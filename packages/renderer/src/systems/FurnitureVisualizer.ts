@@ -0,0 +1,216 @@
+import Phaser from 'phaser';
+import { AssetManager, HabboAssetData } from '../managers/AssetManager';
+import { AssetLoader } from './AssetLoader';
+import {
+  FurnitureAnimationFrame,
+  FurnitureVisualizationData,
+  FurnitureVisualizationLayer
+} from '../data/types/FurnitureData';
+
+export class FurnitureVisualizer {
+  private static assetManager = AssetManager.getInstance();
+
+  private static readonly LAYER_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+  private static readonly SHADOW_LAYER = 'sd';
+  private static readonly SHADOW_ALPHA = 0.2;
+  private static readonly ICON_ASSET = 'icon_a';
+
+  public static createVisualization(
+    scene: Phaser.Scene,
+    className: string,
+    direction: number,
+    size: number = 64,
+    frames: FurnitureAnimationFrame[] = []
+  ): Phaser.GameObjects.Container | null {
+    const metadata = this.assetManager.getMetadata('furniture', className);
+    const collection = this.assetManager.getCollection('furniture', className);
+    if (!metadata || !metadata.spritesheet || !collection) return null;
+
+    const visualization = this.getVisualization(metadata, size);
+    if (!visualization) return null;
+
+    direction = AssetLoader.getNearestDirection(metadata, direction);
+
+    const container = scene.add.container(0, 0);
+    const prefix = `${className}_${visualization.size}`;
+
+    const shadow = scene.add.image(0, 0, collection.textureKey);
+    shadow.setOrigin(0, 0);
+    shadow.setAlpha(this.SHADOW_ALPHA);
+
+    if (this.applyAsset(scene, shadow, metadata, collection.textureKey, `${prefix}_${this.SHADOW_LAYER}_${direction}_0`)) {
+      container.add(shadow);
+    } else {
+      shadow.destroy();
+    }
+
+    const layers: Array<{ image: Phaser.GameObjects.Image; z: number; index: number }> = [];
+
+    for (let index = 0; index < visualization.layerCount; index++) {
+      const layer = this.getLayerData(visualization, direction, index);
+      const image = scene.add.image(0, 0, collection.textureKey);
+
+      image.setOrigin(0, 0);
+      image.setData('layer', index);
+      image.setData('ignoreMouse', layer.ignoreMouse === true);
+      image.setData('z', layer.z || 0);
+
+      if (layer.alpha !== undefined) {
+        image.setAlpha(layer.alpha / 255);
+      }
+
+      if (layer.ink) {
+        image.setBlendMode(this.getBlendMode(layer.ink));
+      }
+
+      layers.push({ image, z: layer.z || 0, index });
+    }
+
+    layers.sort((a, b) => (a.z - b.z) || (a.index - b.index));
+    container.add(layers.map(layer => layer.image));
+
+    this.updateVisualization(scene, container, className, direction, size, frames);
+
+    return container;
+  }
+
+  public static splitFrontLayers(
+    scene: Phaser.Scene,
+    container: Phaser.GameObjects.Container
+  ): Phaser.GameObjects.Container | null {
+    const front = container.list.filter(child => child.getData('z') > 0);
+    if (front.length === 0) return null;
+
+    container.remove(front);
+
+    return scene.add.container(container.x, container.y, front);
+  }
+
+  public static updateVisualization(
+    scene: Phaser.Scene,
+    container: Phaser.GameObjects.Container,
+    className: string,
+    direction: number,
+    size: number,
+    frames: FurnitureAnimationFrame[]
+  ): void {
+    const metadata = this.assetManager.getMetadata('furniture', className);
+    const collection = this.assetManager.getCollection('furniture', className);
+    if (!metadata || !collection) return;
+
+    const visualization = this.getVisualization(metadata, size);
+    if (!visualization) return;
+
+    direction = AssetLoader.getNearestDirection(metadata, direction);
+    const prefix = `${className}_${visualization.size}`;
+
+    container.each((child: Phaser.GameObjects.GameObject) => {
+      const index = child.getData('layer');
+      if (index === undefined) return;
+
+      const image = child as Phaser.GameObjects.Image;
+      const frame = frames[index] || { id: 0 };
+      const letter = this.LAYER_LETTERS[index];
+      const assetName = `${prefix}_${letter}_${direction}_${frame.id}`;
+
+      if (!this.applyAsset(scene, image, metadata, collection.textureKey, assetName)) {
+        image.setVisible(false);
+        return;
+      }
+
+      const layer = this.getLayerData(visualization, direction, index);
+
+      image.setVisible(true);
+      image.x += (layer.x || 0) + (frame.x || 0);
+      image.y += (layer.y || 0) + (frame.y || 0);
+    });
+  }
+
+  public static getIconDataUrl(scene: Phaser.Scene, className: string): string | null {
+    const metadata = this.assetManager.getMetadata('furniture', className);
+    const collection = this.assetManager.getCollection('furniture', className);
+    if (!metadata || !collection) return null;
+
+    const asset = AssetLoader.resolveAsset(metadata, `${className}_${this.ICON_ASSET}`);
+    const frameData = asset ? metadata.spritesheet?.frames[asset.frameKey] : null;
+    if (!asset || !frameData) return null;
+
+    this.ensureFrame(scene, collection.textureKey, asset.frameKey, frameData.frame);
+
+    return scene.textures.getBase64(collection.textureKey, asset.frameKey) as string;
+  }
+
+  public static getVisualization(metadata: HabboAssetData, size: number): FurnitureVisualizationData | null {
+    const visualizations = (metadata.visualizations || []) as FurnitureVisualizationData[];
+
+    return visualizations.find(visualization => visualization.size === size)
+      || visualizations.find(visualization => visualization.size === 64)
+      || null;
+  }
+
+  private static getLayerData(
+    visualization: FurnitureVisualizationData,
+    direction: number,
+    index: number
+  ): FurnitureVisualizationLayer {
+    const baseLayer = visualization.layers?.[index] || {};
+    const directionLayer = visualization.directions?.[direction]?.layers?.[index] || {};
+
+    return { ...baseLayer, ...directionLayer };
+  }
+
+  private static applyAsset(
+    scene: Phaser.Scene,
+    image: Phaser.GameObjects.Image,
+    metadata: HabboAssetData,
+    textureKey: string,
+    assetName: string
+  ): boolean {
+    const asset = AssetLoader.resolveAsset(metadata, assetName);
+    if (!asset) return false;
+
+    const frameData = metadata.spritesheet?.frames[asset.frameKey];
+    if (!frameData) return false;
+
+    this.ensureFrame(scene, textureKey, asset.frameKey, frameData.frame);
+
+    image.setFrame(asset.frameKey);
+    image.setFlip(asset.flipH, asset.flipV);
+    image.setPosition(
+      asset.flipH ? asset.x - frameData.frame.w : -asset.x,
+      asset.flipV ? asset.y - frameData.frame.h : -asset.y
+    );
+
+    return true;
+  }
+
+  private static ensureFrame(
+    scene: Phaser.Scene,
+    textureKey: string,
+    frameKey: string,
+    frame: { x: number; y: number; w: number; h: number }
+  ): void {
+    const texture = scene.textures.get(textureKey);
+
+    if (!texture.has(frameKey)) {
+      texture.add(frameKey, 0, frame.x, frame.y, frame.w, frame.h);
+    }
+  }
+
+  public static getBlendMode(ink: string): Phaser.BlendModes {
+    switch (ink.toUpperCase()) {
+      case 'ADD':
+        return Phaser.BlendModes.ADD;
+      case 'MULTIPLY':
+        return Phaser.BlendModes.MULTIPLY;
+      case 'SCREEN':
+        return Phaser.BlendModes.SCREEN;
+      case 'DARKEN':
+        return Phaser.BlendModes.DARKEN;
+      case 'LIGHTEN':
+        return Phaser.BlendModes.LIGHTEN;
+      default:
+        return Phaser.BlendModes.NORMAL;
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import { Tile } from '../data/types/RoomData';
 import { Vector3 } from '../data/types/Vector3';
+import { PathfindingOptions } from '../data/types/PathfindingData';
+import { BinaryHeap } from '../utils/BinaryHeap';
+import { FurnitureTileMap } from './FurnitureTileMap';
 
 class PathNode {
   public x: number;
@@ -7,44 +10,79 @@ class PathNode {
   public g: number = 0;
   public h: number = 0;
   public f: number = 0;
+  public opened: boolean = false;
+  public closed: boolean = false;
   public parent: PathNode | null = null;
 
   constructor(x: number, y: number) {
     this.x = x;
     this.y = y;
   }
-
-  public calculateH(endX: number, endY: number): void {
-    this.h = Math.abs(this.x - endX) + Math.abs(this.y - endY);
-  }
-
-  public calculateF(): void {
-    this.f = this.g + this.h;
-  }
-
-  public equals(other: PathNode): boolean {
-    return this.x === other.x && this.y === other.y;
-  }
 }
 
 export class PathFinder {
+  public static readonly DEFAULT_OPTIONS: PathfindingOptions = {
+    allowDiagonal: true,
+    cornerCutting: 'never',
+    maxStepUp: 1,
+    maxStepDown: 1,
+    maxNodes: 10000
+  };
+
+  private static readonly DIAGONAL_COST = Math.SQRT2;
+  private static readonly OFF_STAIR_STEP_COST = 2;
+
+  private static readonly DIRECTIONS = [
+    { dx: 0, dy: -1 },
+    { dx: 1, dy: -1 },
+    { dx: 1, dy: 0 },
+    { dx: 1, dy: 1 },
+    { dx: 0, dy: 1 },
+    { dx: -1, dy: 1 },
+    { dx: -1, dy: 0 },
+    { dx: -1, dy: -1 }
+  ];
+
   private tiles: Tile[][];
   private maxX: number;
   private maxY: number;
   private doorTile?: { x: number; y: number };
-
-  constructor(tiles: Tile[][], maxX: number, maxY: number, doorTile?: { x: number; y: number }) {
+  private furnitureTileMap: FurnitureTileMap | null = null;
+  private options: PathfindingOptions;
+
+  constructor(
+    tiles: Tile[][],
+    maxX: number,
+    maxY: number,
+    doorTile?: { x: number; y: number },
+    options: Partial<PathfindingOptions> = {}
+  ) {
     this.tiles = tiles;
     this.maxX = maxX;
     this.maxY = maxY;
     this.doorTile = doorTile;
+    this.options = { ...PathFinder.DEFAULT_OPTIONS, ...options };
+  }
+
+  public setFurnitureTileMap(tileMap: FurnitureTileMap | null): void {
+    this.furnitureTileMap = tileMap;
+  }
+
+  public setOptions(options: Partial<PathfindingOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): PathfindingOptions {
+    return { ...this.options };
   }
 
   public findPath(
     startX: number,
     startY: number,
     endX: number,
-    endY: number
+    endY: number,
+    options?: Partial<PathfindingOptions>,
+    isOccupied?: (x: number, y: number) => boolean
   ): Vector3[] | null {
     if (!this.isValidTile(startX, startY) || !this.isValidTile(endX, endY)) {
       return null;
@@ -54,59 +92,54 @@ export class PathFinder {
       return [];
     }
 
-    if (this.tiles[endY][endX].isBlocked) {
+    if (this.tiles[endY][endX].isBlocked || this.furnitureTileMap?.isBlocked(endX, endY) || isOccupied?.(endX, endY)) {
       return null;
     }
 
-    const startNode = new PathNode(startX, startY);
-    const endNode = new PathNode(endX, endY);
-
-    const openList: PathNode[] = [];
-    const closedList: PathNode[] = [];
+    const settings = options ? { ...this.options, ...options } : this.options;
+    const nodes: Array<PathNode | undefined> = new Array((this.maxX + 1) * (this.maxY + 1));
+    const openList = new BinaryHeap<PathNode>((a, b) => a.f - b.f || a.h - b.h);
 
+    const startNode = this.getNode(nodes, startX, startY);
+    startNode.h = this.heuristic(startX, startY, endX, endY, settings);
+    startNode.f = startNode.h;
+    startNode.opened = true;
     openList.push(startNode);
 
-    while (openList.length > 0) {
-      let currentNode = openList[0];
-      let currentIndex = 0;
-
-      for (let i = 1; i < openList.length; i++) {
-        if (openList[i].f < currentNode.f) {
-          currentNode = openList[i];
-          currentIndex = i;
-        }
-      }
+    let expanded = 0;
 
-      openList.splice(currentIndex, 1);
-      closedList.push(currentNode);
+    while (openList.size > 0) {
+      const currentNode = openList.pop()!;
+      currentNode.closed = true;
 
-      if (currentNode.equals(endNode)) {
+      if (currentNode.x === endX && currentNode.y === endY) {
         return this.reconstructPath(currentNode);
       }
 
-      const neighbors = this.getNeighbors(currentNode.x, currentNode.y);
+      if (++expanded > settings.maxNodes) {
+        return null;
+      }
 
-      for (const neighbor of neighbors) {
-        if (closedList.some(node => node.equals(neighbor))) {
-          continue;
-        }
+      for (const { x, y } of this.getNeighbors(currentNode.x, currentNode.y, endX, endY, settings)) {
+        if (isOccupied?.(x, y)) continue;
 
-        const isDiagonal = neighbor.x !== currentNode.x && neighbor.y !== currentNode.y;
-        const moveCost = isDiagonal ? 1.414 : 1;
-        const tentativeG = currentNode.g + moveCost;
+        const neighbor = this.getNode(nodes, x, y);
+        if (neighbor.closed) continue;
 
-        const existingNode = openList.find(node => node.equals(neighbor));
+        const tentativeG = currentNode.g + this.getMoveCost(currentNode.x, currentNode.y, x, y);
 
-        if (!existingNode) {
+        if (!neighbor.opened) {
           neighbor.g = tentativeG;
-          neighbor.calculateH(endX, endY);
-          neighbor.calculateF();
+          neighbor.h = this.heuristic(x, y, endX, endY, settings);
+          neighbor.f = neighbor.g + neighbor.h;
           neighbor.parent = currentNode;
+          neighbor.opened = true;
           openList.push(neighbor);
-        } else if (tentativeG < existingNode.g) {
-          existingNode.g = tentativeG;
-          existingNode.calculateF();
-          existingNode.parent = currentNode;
+        } else if (tentativeG < neighbor.g) {
+          neighbor.g = tentativeG;
+          neighbor.f = neighbor.g + neighbor.h;
+          neighbor.parent = currentNode;
+          openList.update(neighbor);
         }
       }
     }
@@ -114,60 +147,127 @@ export class PathFinder {
     return null;
   }
 
-  private getNeighbors(x: number, y: number): PathNode[] {
-    const neighbors: PathNode[] = [];
+  private getMoveCost(fromX: number, fromY: number, toX: number, toY: number): number {
+    const isDiagonal = fromX !== toX && fromY !== toY;
+    const cost = isDiagonal ? PathFinder.DIAGONAL_COST : 1;
+    const delta = Math.abs(this.getStandingHeight(toX, toY) - this.getStandingHeight(fromX, fromY));
+
+    if (delta === 0 || (!isDiagonal && delta === 1)) {
+      return cost;
+    }
+
+    return cost + PathFinder.OFF_STAIR_STEP_COST * delta;
+  }
+
+  private getNode(nodes: Array<PathNode | undefined>, x: number, y: number): PathNode {
+    const index = y * (this.maxX + 1) + x;
+    let node = nodes[index];
+
+    if (!node) {
+      node = new PathNode(x, y);
+      nodes[index] = node;
+    }
+
+    return node;
+  }
+
+  private heuristic(x: number, y: number, endX: number, endY: number, settings: PathfindingOptions): number {
+    const dx = Math.abs(x - endX);
+    const dy = Math.abs(y - endY);
+
+    if (!settings.allowDiagonal) {
+      return dx + dy;
+    }
+
+    return dx + dy + (PathFinder.DIAGONAL_COST - 2) * Math.min(dx, dy);
+  }
+
+  private getNeighbors(
+    x: number,
+    y: number,
+    endX: number,
+    endY: number,
+    settings: PathfindingOptions
+  ): Array<{ x: number; y: number }> {
+    const neighbors: Array<{ x: number; y: number }> = [];
 
-    const directions = [
-      { dx: 0, dy: -1 },
-      { dx: 1, dy: -1 },
-      { dx: 1, dy: 0 },
-      { dx: 1, dy: 1 },
-      { dx: 0, dy: 1 },
-      { dx: -1, dy: 1 },
-      { dx: -1, dy: 0 },
-      { dx: -1, dy: -1 }
-    ];
+    for (const dir of PathFinder.DIRECTIONS) {
+      const isDiagonal = dir.dx !== 0 && dir.dy !== 0;
+      if (isDiagonal && !settings.allowDiagonal) continue;
 
-    for (const dir of directions) {
       const newX = x + dir.dx;
       const newY = y + dir.dy;
 
-      if (!this.isValidTile(newX, newY) || this.tiles[newY][newX].isBlocked || !this.tiles[newY][newX].walkable) {
+      if (!this.isOpenTile(newX, newY)) {
         continue;
       }
 
-      if (!this.canMoveBetweenTiles(x, y, newX, newY)) {
+      if (!this.canEnterFurnitureTile(newX, newY, endX, endY)) {
         continue;
       }
 
-      if (dir.dx !== 0 && dir.dy !== 0) {
-        const checkX = this.isValidTile(x + dir.dx, y) && !this.tiles[y][x + dir.dx].isBlocked && this.tiles[y][x + dir.dx].walkable;
-        const checkY = this.isValidTile(x, y + dir.dy) && !this.tiles[y + dir.dy][x].isBlocked && this.tiles[y + dir.dy][x].walkable;
-
-        if (!checkX || !checkY) {
-          continue;
-        }
-
-        const canMoveX = this.canMoveBetweenTiles(x, y, x + dir.dx, y);
-        const canMoveY = this.canMoveBetweenTiles(x, y, x, y + dir.dy);
+      if (!this.canMoveBetweenTiles(x, y, newX, newY, settings)) {
+        continue;
+      }
 
-        if (!canMoveX || !canMoveY) {
-          continue;
-        }
+      if (isDiagonal && !this.canCutCorner(x, y, dir.dx, dir.dy, settings)) {
+        continue;
       }
 
-      neighbors.push(new PathNode(newX, newY));
+      neighbors.push({ x: newX, y: newY });
     }
 
     return neighbors;
   }
 
-  private canMoveBetweenTiles(fromX: number, fromY: number, toX: number, toY: number): boolean {
+  private canCutCorner(x: number, y: number, dx: number, dy: number, settings: PathfindingOptions): boolean {
+    if (settings.cornerCutting === 'always') return true;
+
+    const canPassX = this.isOpenTile(x + dx, y) &&
+      !this.furnitureTileMap?.isBlocked(x + dx, y) &&
+      this.canMoveBetweenTiles(x, y, x + dx, y, settings);
+    const canPassY = this.isOpenTile(x, y + dy) &&
+      !this.furnitureTileMap?.isBlocked(x, y + dy) &&
+      this.canMoveBetweenTiles(x, y, x, y + dy, settings);
+
+    return settings.cornerCutting === 'partial' ? canPassX || canPassY : canPassX && canPassY;
+  }
+
+  private isOpenTile(x: number, y: number): boolean {
+    if (!this.isValidTile(x, y)) return false;
+
+    const tile = this.tiles[y][x];
+
+    return tile.walkable && !tile.isBlocked;
+  }
+
+  private canEnterFurnitureTile(x: number, y: number, endX: number, endY: number): boolean {
+    if (!this.furnitureTileMap) return true;
+
+    if (x === endX && y === endY) {
+      return !this.furnitureTileMap.isBlocked(x, y);
+    }
+
+    return this.furnitureTileMap.canPassThrough(x, y);
+  }
+
+  private canMoveBetweenTiles(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    settings: PathfindingOptions
+  ): boolean {
     const dx = toX - fromX;
     const dy = toY - fromY;
 
     const fromTile = this.tiles[fromY][fromX];
     const toTile = this.tiles[toY][toX];
+    const heightDelta = this.getStandingHeight(toX, toY) - this.getStandingHeight(fromX, fromY);
+
+    if (heightDelta > settings.maxStepUp || -heightDelta > settings.maxStepDown) {
+      return false;
+    }
 
     const isDoorFrom = this.doorTile && fromX === this.doorTile.x && fromY === this.doorTile.y;
     const isDoorTo = this.doorTile && toX === this.doorTile.x && toY === this.doorTile.y;
@@ -208,8 +308,7 @@ export class PathFinder {
     let current: PathNode | null = endNode;
 
     while (current !== null) {
-      const tile = this.tiles[current.y][current.x];
-      path.unshift(new Vector3(current.x, current.y, tile.height));
+      path.unshift(new Vector3(current.x, current.y, this.getStandingHeight(current.x, current.y)));
       current = current.parent;
     }
 
@@ -218,6 +317,33 @@ export class PathFinder {
     return path;
   }
 
+  private getStandingHeight(x: number, y: number): number {
+    const height = this.tiles[y][x].height;
+
+    return this.furnitureTileMap ? this.furnitureTileMap.getWalkHeight(x, y, height) : height;
+  }
+
+  public canEnterTile(x: number, y: number, endX: number, endY: number): boolean {
+    return this.isOpenTile(x, y) && this.canEnterFurnitureTile(x, y, endX, endY);
+  }
+
+  public getWalkableTiles(): Array<{ x: number; y: number }> {
+    const walkable: Array<{ x: number; y: number }> = [];
+
+    for (let y = 0; y <= this.maxY; y++) {
+      for (let x = 0; x <= this.maxX; x++) {
+        const tile = this.tiles[y]?.[x];
+        if (!tile || !tile.walkable || tile.isBlocked) continue;
+        if (this.doorTile && x === this.doorTile.x && y === this.doorTile.y) continue;
+        if (this.furnitureTileMap?.isBlocked(x, y)) continue;
+
+        walkable.push({ x, y });
+      }
+    }
+
+    return walkable;
+  }
+
   private isValidTile(x: number, y: number): boolean {
     return x >= 0 && x <= this.maxX && y >= 0 && y <= this.maxY;
   }
@@ -226,14 +352,14 @@ export class PathFinder {
     const dx = toX - fromX;
     const dy = toY - fromY;
 
-    if (dx === 0 && dy < 0) return 4;
-    if (dx > 0 && dy < 0) return 3;
+    if (dx === 0 && dy < 0) return 0;
+    if (dx > 0 && dy < 0) return 1;
     if (dx > 0 && dy === 0) return 2;
-    if (dx > 0 && dy > 0) return 1;
-    if (dx === 0 && dy > 0) return 0;
-    if (dx < 0 && dy > 0) return 7;
+    if (dx > 0 && dy > 0) return 3;
+    if (dx === 0 && dy > 0) return 4;
+    if (dx < 0 && dy > 0) return 5;
     if (dx < 0 && dy === 0) return 6;
-    if (dx < 0 && dy < 0) return 5;
+    if (dx < 0 && dy < 0) return 7;
 
     return 0;
   }
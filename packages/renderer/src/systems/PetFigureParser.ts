@@ -0,0 +1,23 @@
+import { PetFigure } from '../data/types/PetData';
+
+export class PetFigureParser {
+  private static readonly DEFAULT_COLOR = 'FFFFFF';
+
+  public static parse(figure: string): PetFigure | null {
+    const [typeId, paletteId, color] = figure.trim().split(/\s+/);
+    const type = Number(typeId);
+    const palette = Number(paletteId ?? 0);
+
+    if (!Number.isInteger(type) || !Number.isInteger(palette)) return null;
+
+    return {
+      typeId: type,
+      paletteId: palette,
+      color: /^[0-9a-f]{6}$/i.test(color || '') ? color.toUpperCase() : this.DEFAULT_COLOR
+    };
+  }
+
+  public static stringify(figure: PetFigure): string {
+    return [figure.typeId, figure.paletteId, figure.color].join(' ');
+  }
+}
@@ -0,0 +1,136 @@
+import { Vector3 } from '../data/types/Vector3';
+import { RoomUnit } from '../entities/RoomUnit';
+import { PathFinder } from './PathFinder';
+
+export class UnitMovementController {
+  private static readonly DEFAULT_MAX_FAILURES = 3;
+  private static readonly RETRY_DELAY = 500;
+
+  private unit: RoomUnit;
+  private pathFinder: PathFinder;
+  private isOccupied: (x: number, y: number) => boolean;
+  private maxFailures: number;
+
+  private destination: Vector3 | null = null;
+  private failedDestination: Vector3 | null = null;
+  private failures: number = 0;
+  private retryRemaining: number = 0;
+  private onGiveUpCallback?: (destination: Vector3) => void;
+
+  constructor(
+    unit: RoomUnit,
+    pathFinder: PathFinder,
+    isOccupied: (x: number, y: number) => boolean,
+    maxFailures: number = UnitMovementController.DEFAULT_MAX_FAILURES
+  ) {
+    this.unit = unit;
+    this.pathFinder = pathFinder;
+    this.isOccupied = isOccupied;
+    this.maxFailures = maxFailures;
+
+    this.unit.setStepValidator((next, destination) => this.canStep(next, destination));
+    this.unit.onBlocked(destination => this.handleBlocked(destination));
+  }
+
+  public setPathFinder(pathFinder: PathFinder): void {
+    this.pathFinder = pathFinder;
+  }
+
+  public getPathFinder(): PathFinder {
+    return this.pathFinder;
+  }
+
+  public onGiveUp(callback: (destination: Vector3) => void): void {
+    this.onGiveUpCallback = callback;
+  }
+
+  public moveTo(x: number, y: number): boolean {
+    const path = this.findPath(x, y);
+    if (!path) return false;
+
+    this.cancel();
+    this.unit.walkTo(path);
+
+    return true;
+  }
+
+  public findPath(x: number, y: number): Vector3[] | null {
+    const from = this.unit.getTilePosition();
+
+    return this.pathFinder.findPath(from.x, from.y, x, y, undefined, this.isOccupied);
+  }
+
+  public isReplanning(): boolean {
+    return this.destination !== null;
+  }
+
+  public cancel(): void {
+    this.destination = null;
+    this.failedDestination = null;
+    this.failures = 0;
+  }
+
+  public update(delta: number): void {
+    if (!this.destination || this.unit.isMoving()) return;
+
+    this.retryRemaining -= delta;
+    if (this.retryRemaining > 0) return;
+
+    this.replan();
+  }
+
+  private canStep(next: Vector3, destination: Vector3): boolean {
+    return !this.isOccupied(next.x, next.y) &&
+      this.pathFinder.canEnterTile(next.x, next.y, destination.x, destination.y);
+  }
+
+  private handleBlocked(destination: Vector3): void {
+    if (this.failedDestination?.x !== destination.x || this.failedDestination?.y !== destination.y) {
+      this.failedDestination = destination;
+      this.failures = 0;
+    }
+
+    this.destination = destination;
+    this.retryRemaining = 0;
+    this.recordFailure();
+  }
+
+  private replan(): void {
+    if (!this.destination) return;
+
+    const destination = this.destination;
+    const path = this.findPath(destination.x, destination.y);
+
+    if (!path) {
+      this.retryRemaining = UnitMovementController.RETRY_DELAY;
+      this.recordFailure();
+      return;
+    }
+
+    this.destination = null;
+
+    if (path.length > 0) {
+      this.unit.walkTo(path);
+    }
+  }
+
+  private recordFailure(): void {
+    if (!this.destination) return;
+
+    this.failures++;
+    if (this.failures <= this.maxFailures) return;
+
+    const destination = this.destination;
+
+    this.cancel();
+
+    if (this.onGiveUpCallback) {
+      this.onGiveUpCallback(destination);
+    }
+  }
+
+  public destroy(): void {
+    this.unit.setStepValidator(null);
+    this.cancel();
+  }
+}
@@ -0,0 +1,75 @@
+import { WallLocation, WallSide } from '../data/types/RoomData';
+import { WallMesh } from '../data/types/MeshData';
+import { IsometricEngine } from '../engine/IsometricEngine';
+
+export class WallPlacement {
+  private static readonly LOCATION_PATTERN = /^:w=(-?\d+),(-?\d+)\s+l=(-?\d+),(-?\d+)\s+([lr])$/;
+
+  public static parseLocation(value: string): WallLocation | null {
+    const match = value.trim().match(this.LOCATION_PATTERN);
+    if (!match) return null;
+
+    return {
+      x: Number(match[1]),
+      y: Number(match[2]),
+      offsetX: Number(match[3]),
+      offsetY: Number(match[4]),
+      side: match[5] === 'l' ? 'west' : 'north'
+    };
+  }
+
+  public static formatLocation(location: WallLocation): string {
+    const side = location.side === 'west' ? 'l' : 'r';
+
+    return `:w=${location.x},${location.y} l=${location.offsetX},${location.offsetY} ${side}`;
+  }
+
+  public static getDirection(side: WallSide): number {
+    return side === 'west' ? 2 : 4;
+  }
+
+  public static findWall(wallMeshes: WallMesh[], location: WallLocation): WallMesh | null {
+    return wallMeshes.find(mesh => {
+      if (mesh.direction !== location.side) return false;
+
+      if (mesh.direction === 'north') {
+        return mesh.position.y === location.y
+          && location.x >= mesh.position.x
+          && location.x < mesh.position.x + mesh.length;
+      }
+
+      return mesh.position.x === location.x
+        && location.y >= mesh.position.y
+        && location.y < mesh.position.y + mesh.length;
+    }) || null;
+  }
+
+  public static isValidOffset(location: WallLocation, wallHeight: number): boolean {
+    return location.offsetX >= 0
+      && location.offsetX <= IsometricEngine.HALF_TILE_WIDTH
+      && location.offsetY >= 0
+      && location.offsetY <= wallHeight * IsometricEngine.TILE_SCALE;
+  }
+
+  public static getScreenPosition(location: WallLocation, wallTop: number): { x: number; y: number } {
+    const corner = location.side === 'north'
+      ? this.getWallPoint(location.x, location.y, wallTop)
+      : this.getWallPoint(location.x, location.y + 1, wallTop);
+
+    const slope = location.side === 'north' ? 0.5 : -0.5;
+
+    return {
+      x: corner.x + location.offsetX,
+      y: corner.y + location.offsetX * slope + location.offsetY
+    };
+  }
+
+  public static getWallPoint(x: number, y: number, z: number): { x: number; y: number } {
+    const screenPos = IsometricEngine.tileToScreen(x, y, z);
+
+    return {
+      x: screenPos.x + IsometricEngine.HALF_TILE_WIDTH,
+      y: screenPos.y - IsometricEngine.HALF_TILE_HEIGHT
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { IsometricEngine } from '../engine/IsometricEngine';
 import { CubeRenderer } from '../engine/CubeRenderer';
+import { WallPlacement } from './WallPlacement';
 import { WallMesh, CubeFace } from '../data/types/MeshData';
 
 export interface WallStyle {
@@ -97,6 +98,24 @@ export class WallRenderer {
     }
   }
 
+  public getWallTop(): number {
+    return this.floorThickness / 32 + this.baseWallHeight / 32 + this.maxHeight;
+  }
+
+  public getWallFace(mesh: WallMesh): Phaser.Geom.Polygon {
+    const { x, y, z } = mesh.position;
+    const top = this.getWallTop();
+    const endX = mesh.direction === 'north' ? x + mesh.length : x;
+    const endY = mesh.direction === 'west' ? y + mesh.length : y;
+
+    return new Phaser.Geom.Polygon([
+      WallPlacement.getWallPoint(x, y, z),
+      WallPlacement.getWallPoint(endX, endY, z),
+      WallPlacement.getWallPoint(endX, endY, top),
+      WallPlacement.getWallPoint(x, y, top)
+    ]);
+  }
+
   public renderDoorFrame(
     graphics: Phaser.GameObjects.Graphics,
     doorX: number,
@@ -0,0 +1,99 @@
+import { RoomUnit } from '../entities/RoomUnit';
+import { UnitMovementController } from './UnitMovementController';
+
+export interface WanderOptions {
+  radius?: number;
+  minIdleTime?: number;
+  maxIdleTime?: number;
+  restChance?: number;
+  random?: () => number;
+}
+
+export class WanderBehavior {
+  private static readonly DEFAULT_RADIUS = 4;
+  private static readonly DEFAULT_MIN_IDLE_TIME = 3000;
+  private static readonly DEFAULT_MAX_IDLE_TIME = 8000;
+  private static readonly DEFAULT_REST_CHANCE = 0.3;
+  private static readonly MAX_ATTEMPTS = 5;
+
+  private unit: RoomUnit;
+  private movement: UnitMovementController;
+  private radius: number;
+  private minIdleTime: number;
+  private maxIdleTime: number;
+  private restChance: number;
+  private random: () => number;
+
+  private enabled: boolean = true;
+  private idleRemaining: number = 0;
+  private onRestCallback?: (random: () => number) => void;
+
+  constructor(unit: RoomUnit, movement: UnitMovementController, options: WanderOptions = {}) {
+    this.unit = unit;
+    this.movement = movement;
+    this.radius = options.radius ?? WanderBehavior.DEFAULT_RADIUS;
+    this.minIdleTime = options.minIdleTime ?? WanderBehavior.DEFAULT_MIN_IDLE_TIME;
+    this.maxIdleTime = options.maxIdleTime ?? WanderBehavior.DEFAULT_MAX_IDLE_TIME;
+    this.restChance = options.restChance ?? WanderBehavior.DEFAULT_REST_CHANCE;
+    this.random = options.random ?? Math.random;
+
+    this.resetIdleTime();
+    this.movement.onGiveUp(() => this.resetIdleTime());
+  }
+
+  public getMovementController(): UnitMovementController {
+    return this.movement;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.resetIdleTime();
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public onRest(callback: (random: () => number) => void): void {
+    this.onRestCallback = callback;
+  }
+
+  public update(delta: number): void {
+    if (!this.enabled || this.unit.isMoving() || this.movement.isReplanning()) return;
+
+    this.idleRemaining -= delta;
+    if (this.idleRemaining > 0) return;
+
+    this.resetIdleTime();
+
+    if (this.onRestCallback && this.random() < this.restChance) {
+      this.onRestCallback(this.random);
+      return;
+    }
+
+    this.wander();
+  }
+
+  public wander(): boolean {
+    const { x, y } = this.unit.getTilePosition();
+    const candidates = this.movement.getPathFinder().getWalkableTiles().filter(tile =>
+      (tile.x !== x || tile.y !== y) &&
+      Math.max(Math.abs(tile.x - x), Math.abs(tile.y - y)) <= this.radius
+    );
+
+    for (let attempt = 0; attempt < WanderBehavior.MAX_ATTEMPTS && candidates.length > 0; attempt++) {
+      const index = Math.floor(this.random() * candidates.length);
+      const [target] = candidates.splice(index, 1);
+
+      if (this.movement.moveTo(target.x, target.y)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private resetIdleTime(): void {
+    this.idleRemaining = this.minIdleTime + this.random() * (this.maxIdleTime - this.minIdleTime);
+  }
+}
@@ -0,0 +1,93 @@
+export class BinaryHeap<T> {
+  private items: T[] = [];
+  private positions: Map<T, number> = new Map();
+  private compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  public push(item: T): void {
+    this.items.push(item);
+    this.positions.set(item, this.items.length - 1);
+    this.siftUp(this.items.length - 1);
+  }
+
+  public pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    this.positions.delete(top);
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.positions.set(last, 0);
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  public peek(): T | undefined {
+    return this.items[0];
+  }
+
+  public update(item: T): void {
+    const index = this.positions.get(item);
+    if (index === undefined) return;
+
+    this.siftUp(index);
+    this.siftDown(this.positions.get(item)!);
+  }
+
+  public has(item: T): boolean {
+    return this.positions.has(item);
+  }
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public clear(): void {
+    this.items = [];
+    this.positions.clear();
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.items[index], this.items[parent]) >= 0) break;
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.compare(this.items[left], this.items[smallest]) < 0) smallest = left;
+      if (right < length && this.compare(this.items[right], this.items[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const item = this.items[a];
+
+    this.items[a] = this.items[b];
+    this.items[b] = item;
+    this.positions.set(this.items[a], a);
+    this.positions.set(this.items[b], b);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DepthManager } from '../../src/engine/DepthManager';
+import { RoomObjectCategory } from '../../src/data/types/RoomData';
+
+const depthOf = (apply: (target: { setDepth(value: number): void }) => void): number => {
+  let depth = NaN;
+  apply({ setDepth: value => { depth = value; } });
+  return depth;
+};
+
+describe('DepthManager', () => {
+  it('draws front furniture layers over a unit on the same tile', () => {
+    const furniture = depthOf(target => DepthManager.updateObjectDepth(target as any, 3, 4, 0));
+    const front = depthOf(target => DepthManager.updateFrontLayerDepth(target as any, 3, 4, 0));
+    const unit = depthOf(target => DepthManager.updateUnitDepth(target as any, 3, 4, 0));
+
+    expect(furniture).toBeLessThan(unit);
+    expect(unit).toBeLessThan(front);
+  });
+
+  it('keeps front layers behind objects on later rows', () => {
+    const front = depthOf(target => DepthManager.updateFrontLayerDepth(target as any, 3, 4, 0));
+
+    expect(front).toBeLessThan(DepthManager.getDepth(4, 4, 0, RoomObjectCategory.FLOOR));
+    expect(front).toBeLessThan(DepthManager.getDepth(3, 5, 0, RoomObjectCategory.UNIT));
+  });
+
+  it('sorts walls and wall items behind floor objects', () => {
+    const wallItem = depthOf(target => DepthManager.updateWallItemDepth(target as any, 9, 9, 32));
+
+    expect(DepthManager.getWallDepth()).toBeLessThan(wallItem);
+    expect(wallItem).toBeLessThan(DepthManager.getDepth(0, 0, 0, RoomObjectCategory.FLOOR));
+  });
+
+  it('sorts higher objects in front within a row', () => {
+    expect(DepthManager.getDepth(2, 2, 1, RoomObjectCategory.UNIT))
+      .toBeGreaterThan(DepthManager.getDepth(2, 2, 0, RoomObjectCategory.UNIT));
+  });
+});
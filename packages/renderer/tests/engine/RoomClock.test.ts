@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { RoomClock } from '../../src/engine/RoomClock';
+
+describe('RoomClock', () => {
+  afterEach(() => {
+    RoomClock.setTickRate(RoomClock.DEFAULT_TICK_RATE);
+  });
+
+  it('advances by the frame delta', () => {
+    const clock = new RoomClock();
+
+    expect(clock.advance(16)).toBe(16);
+    expect(clock.advance(34)).toBe(34);
+    expect(clock.getTime()).toBe(50);
+  });
+
+  it('steps by whole ticks of the configured tick rate', () => {
+    const clock = new RoomClock();
+
+    RoomClock.setTickRate(20);
+
+    expect(clock.step()).toBe(50);
+    expect(clock.step(3)).toBe(150);
+    expect(clock.getTime()).toBe(200);
+  });
+
+  it('ignores non-positive tick rates', () => {
+    RoomClock.setTickRate(0);
+    RoomClock.setTickRate(-5);
+
+    expect(RoomClock.getTickRate()).toBe(RoomClock.DEFAULT_TICK_RATE);
+  });
+
+  it('does not advance while paused but still steps', () => {
+    const clock = new RoomClock();
+
+    clock.pause();
+
+    expect(clock.isPaused()).toBe(true);
+    expect(clock.advance(100)).toBe(0);
+    expect(clock.getTime()).toBe(0);
+
+    clock.step(2);
+    expect(clock.getTime()).toBe(2 * RoomClock.getTickInterval());
+
+    clock.resume();
+    clock.advance(10);
+    expect(clock.getTime()).toBe(2 * RoomClock.getTickInterval() + 10);
+  });
+
+  it('scales advanced time and clamps negative scales to zero', () => {
+    const clock = new RoomClock();
+
+    clock.setTimeScale(2);
+    expect(clock.advance(10)).toBe(20);
+
+    clock.setTimeScale(0.5);
+    expect(clock.advance(10)).toBe(5);
+
+    clock.setTimeScale(-1);
+    expect(clock.getTimeScale()).toBe(0);
+    expect(clock.advance(10)).toBe(0);
+    expect(clock.getTime()).toBe(25);
+  });
+});
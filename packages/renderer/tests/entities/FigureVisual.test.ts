@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FigureVisual } from '../../src/entities/FigureVisual';
+import { AssetManager, AssetType, HabboAssetData } from '../../src/managers/AssetManager';
+import { AvatarEffectRegistry } from '../../src/managers/AvatarEffectRegistry';
+import { FigureDataRegistry } from '../../src/managers/FigureDataRegistry';
+import { RoomUnitState } from '../../src/data/types/RoomUnitData';
+
+vi.mock('phaser', () => ({
+  default: { BlendModes: { NORMAL: 0, ADD: 1, MULTIPLY: 2, SCREEN: 3, DARKEN: 17, LIGHTEN: 18 } }
+}));
+
+class FakeImage {
+  public x = 0;
+  public y = 0;
+  public visible = true;
+  public frame: string | null = null;
+  public blendMode = 0;
+  public destroyed = false;
+
+  setOrigin() { return this; }
+  setVisible(visible: boolean) { this.visible = visible; return this; }
+  setTexture(_key: string, frame?: string) { this.frame = frame || null; return this; }
+  setFlipX() { return this; }
+  setPosition(x: number, y: number) { this.x = x; this.y = y; return this; }
+  setTint() { return this; }
+  clearTint() { return this; }
+  setBlendMode(blendMode: number) { this.blendMode = blendMode; return this; }
+  destroy() { this.destroyed = true; }
+}
+
+class FakeContainer {
+  public list: FakeImage[] = [];
+  public scene = {};
+
+  add(children: FakeImage | FakeImage[]) { this.list.push(...([] as FakeImage[]).concat(children)); return this; }
+  removeAll() { this.list = []; return this; }
+  destroy() { this.scene = undefined as unknown as object; }
+}
+
+const createAssets = (library: string, names: string[], extra: Partial<HabboAssetData> = {}): HabboAssetData => ({
+  name: library,
+  assets: Object.fromEntries(names.map(name => [name, { x: 10, y: 20 }])),
+  spritesheet: {
+    frames: Object.fromEntries(names.map(name => [`${library}_${name}`, { frame: { x: 0, y: 0, w: 20, h: 20 } }])),
+    meta: { image: '', format: 'RGBA8888', size: { w: 20, h: 20 }, scale: 1 }
+  },
+  ...extra
+});
+
+const metadata: Record<string, HabboAssetData> = {
+  figure_hh_test: createAssets('hh_test', [
+    'h_std_bd_1_2_0', 'h_sit_bd_1_2_0', 'h_sit_bd_1_2_1', 'h_std_hd_1_2_0', 'h_std_hr_1_2_0'
+  ]),
+  effect_fx_test: createAssets('fx_test', ['glow_0_0', 'spark_2_0'], {
+    animation: {
+      frameInterval: 100,
+      remove: ['hr'],
+      sprites: [
+        { id: 'glow', member: 'glow', ink: 'ADD', order: 'behind' },
+        { id: 'spark', member: 'spark', directional: true }
+      ],
+      frames: [
+        { parts: [{ type: 'bd', action: 'sit', dx: 3 }], sprites: [{ id: 'glow', dy: -2 }] },
+        { parts: [{ type: 'bd', action: 'sit', frame: 1 }] }
+      ]
+    }
+  })
+};
+
+const state: RoomUnitState = { direction: 2, headDirection: 2, posture: 'std', isWalking: false, walkFrame: 0 };
+
+const createScene = () => {
+  const images: FakeImage[] = [];
+  const containers: FakeContainer[] = [];
+
+  const scene = {
+    add: {
+      image: () => {
+        const image = new FakeImage();
+        images.push(image);
+        return image;
+      },
+      container: (_x: number, _y: number, children: FakeImage[] = []) => {
+        const container = new FakeContainer().add(children);
+        containers.push(container);
+        return container;
+      }
+    },
+    textures: {
+      get: () => ({ has: () => true, add: () => undefined }),
+      addDynamicTexture: () => ({ draw: () => undefined }),
+      exists: () => false,
+      remove: () => undefined
+    }
+  };
+
+  return { scene: scene as unknown as Phaser.Scene, images, containers };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('FigureVisual effects', () => {
+  beforeEach(() => {
+    const assetManager = AssetManager.getInstance();
+
+    vi.restoreAllMocks();
+    vi.spyOn(assetManager, 'loadAsset').mockResolvedValue(undefined as never);
+    vi.spyOn(assetManager, 'getMetadata').mockImplementation((type: AssetType, name: string) =>
+      metadata[`${type}_${name}`] || null
+    );
+    vi.spyOn(assetManager, 'getCollection').mockImplementation((type: AssetType, name: string) =>
+      metadata[`${type}_${name}`]
+        ? { textureKey: `${type}_${name}`, metaKey: '', data: null, loaded: true, referenceCount: 0, lastUsedTimestamp: 0 }
+        : null
+    );
+
+    FigureDataRegistry.getInstance().register({
+      id: 180,
+      type: 'hd',
+      library: 'hh_test',
+      parts: [{ id: 1, type: 'bd' }, { id: 1, type: 'hd' }, { id: 1, type: 'hr' }]
+    });
+    AvatarEffectRegistry.getInstance().register({ id: 9, library: 'fx_test' });
+  });
+
+  it('hides removed parts, replaces part actions and layers the effect sprites', async () => {
+    const { scene, containers } = createScene();
+    const visual = new FigureVisual(scene, 'hd-180-1');
+
+    visual.setEffect(9);
+    await flush();
+    visual.render(state);
+
+    const [, ...layers] = containers[0].list;
+    const frames = layers.map(image => image.frame);
+
+    expect(frames).toEqual([
+      'fx_test_glow_0_0',
+      'hh_test_h_sit_bd_1_2_0',
+      'hh_test_h_std_hd_1_2_0',
+      'fx_test_spark_2_0'
+    ]);
+    expect(layers.every(image => image.visible)).toBe(true);
+
+    const [glow, body, head] = layers;
+
+    expect(glow.blendMode).toBe(1);
+    expect(glow.y).toBe(-20 - 2);
+    expect(body.x - head.x).toBe(3);
+  });
+
+  it('advances the effect frames and restores the figure when cleared', async () => {
+    const { scene, containers } = createScene();
+    const visual = new FigureVisual(scene, 'hd-180-1');
+
+    visual.setEffect(9);
+    await flush();
+    visual.render(state);
+
+    const effectImages = [containers[0].list[1], containers[0].list[4]];
+
+    visual.update(100);
+    expect(containers[0].list.map(image => image.frame)).toContain('hh_test_h_sit_bd_1_2_1');
+
+    visual.setEffect(null);
+
+    expect(visual.getEffect()).toBeNull();
+    expect(effectImages.every(image => image.destroyed)).toBe(true);
+    expect(containers[0].list.some(image => image.frame?.startsWith('fx_test'))).toBe(false);
+  });
+});
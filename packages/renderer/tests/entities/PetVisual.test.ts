@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PetVisual } from '../../src/entities/PetVisual';
+import { AssetManager, AssetType, HabboAssetData } from '../../src/managers/AssetManager';
+import { PetTypeRegistry } from '../../src/managers/PetTypeRegistry';
+import { RoomUnitState } from '../../src/data/types/RoomUnitData';
+
+vi.mock('phaser', () => ({
+  default: { BlendModes: { NORMAL: 0, ADD: 1, MULTIPLY: 2, SCREEN: 3, DARKEN: 17, LIGHTEN: 18 } }
+}));
+
+class FakeImage {
+  public visible = true;
+  public frame: string | null = null;
+  public blendMode = 0;
+  public tint: number | null = null;
+
+  setOrigin() { return this; }
+  setAlpha() { return this; }
+  setData() { return this; }
+  setVisible(visible: boolean) { this.visible = visible; return this; }
+  setTexture(_key: string, frame?: string) { this.frame = frame || null; return this; }
+  setFlipX() { return this; }
+  setPosition() { return this; }
+  setTint(tint: number) { this.tint = tint; return this; }
+  setBlendMode(blendMode: number) { this.blendMode = blendMode; return this; }
+  destroy() { return undefined; }
+}
+
+const library = 'pet_test';
+const assetNames = ['64_a_std_2_0', '64_a_sit_2_0', '64_a_wlk_2_1', '64_b_std_2_0'].map(name => `${library}_${name}`);
+
+const metadata: HabboAssetData = {
+  name: library,
+  visualizations: [{ size: 64, layerCount: 2, layers: { 1: { ink: 'ADD' } }, directions: { 2: {}, 4: {} } }],
+  assets: Object.fromEntries(assetNames.map(name => [name, { x: 0, y: 0 }])),
+  spritesheet: {
+    frames: Object.fromEntries(assetNames.map(name => [`${library}_${name}`, { frame: { x: 0, y: 0, w: 20, h: 20 } }])),
+    meta: { image: '', format: 'RGBA8888', size: { w: 20, h: 20 }, scale: 1 }
+  }
+};
+
+const createScene = () => {
+  const images: FakeImage[] = [];
+
+  const scene = {
+    add: {
+      image: () => {
+        const image = new FakeImage();
+        images.push(image);
+        return image;
+      },
+      container: () => ({ scene: {}, add: () => undefined, sort: () => undefined, destroy: () => undefined })
+    },
+    textures: {
+      get: () => ({ has: () => true, add: () => undefined })
+    }
+  };
+
+  return { scene: scene as unknown as Phaser.Scene, images };
+};
+
+const createState = (state: Partial<RoomUnitState> = {}): RoomUnitState =>
+  ({ direction: 2, headDirection: 2, posture: 'std', isWalking: false, walkFrame: 0, ...state });
+
+const frameName = (image: FakeImage) => image.frame?.slice(`${library}_${library}_64_`.length);
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PetVisual', () => {
+  beforeEach(() => {
+    const assetManager = AssetManager.getInstance();
+
+    vi.restoreAllMocks();
+    vi.spyOn(assetManager, 'loadAsset').mockResolvedValue(undefined as never);
+    vi.spyOn(assetManager, 'getMetadata').mockImplementation((type: AssetType, name: string) =>
+      type === 'pet' && name === library ? metadata : null
+    );
+    vi.spyOn(assetManager, 'getCollection').mockImplementation((type: AssetType, name: string) =>
+      type === 'pet' && name === library
+        ? { textureKey: library, metaKey: '', data: null, loaded: true, referenceCount: 0, lastUsedTimestamp: 0 }
+        : null
+    );
+
+    PetTypeRegistry.getInstance().register({ id: 3, library });
+  });
+
+  const createVisual = async () => {
+    const { scene, images } = createScene();
+    const visual = new PetVisual(scene, '3 0 FF8800');
+
+    await flush();
+
+    return { visual, images };
+  };
+
+  it('draws the posture frame per layer and falls back to standing', async () => {
+    const { visual, images } = await createVisual();
+
+    visual.setPosture('sit');
+    visual.render(createState());
+
+    expect(images.map(frameName)).toEqual(['a_sit_2_0', 'b_std_2_0']);
+    expect(images.every(image => image.visible)).toBe(true);
+  });
+
+  it('uses the walk frame while walking and the nearest available direction', async () => {
+    const { visual, images } = await createVisual();
+
+    visual.setPosture('sit');
+    visual.render(createState({ direction: 1, isWalking: true, walkFrame: 1 }));
+    expect(images.map(frameName)).toEqual(['a_wlk_2_1', 'b_std_2_0']);
+
+    visual.render(createState({ isWalking: true, walkFrame: 0 }));
+    expect(images.map(frameName)).toEqual(['a_std_2_0', 'b_std_2_0']);
+  });
+
+  it('tints only the normal blended layers with the figure colour', async () => {
+    const { visual, images } = await createVisual();
+
+    visual.render(createState());
+
+    expect(images[0].tint).toBe(0xFF8800);
+    expect(images[1].blendMode).toBe(1);
+    expect(images[1].tint).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FigureCache } from '../../src/managers/FigureCache';
+
+interface FakeImage {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visible: boolean;
+}
+
+const createScene = () => {
+  const draws: Array<{ image: FakeImage; x: number; y: number }> = [];
+  const textures: Array<{ key: string; width: number; height: number }> = [];
+
+  const scene = {
+    textures: {
+      addDynamicTexture: (key: string, width: number, height: number) => {
+        textures.push({ key, width, height });
+        return { draw: (image: FakeImage, x: number, y: number) => draws.push({ image, x, y }) };
+      },
+      exists: () => false,
+      remove: () => undefined
+    }
+  };
+
+  return { scene: scene as unknown as Phaser.Scene, draws, textures };
+};
+
+const image = (x: number, y: number, width: number, height: number, visible: boolean = true): FakeImage =>
+  ({ x, y, width, height, visible });
+
+describe('FigureCache', () => {
+  afterEach(() => {
+    FigureCache.getInstance().clear();
+  });
+
+  it('bakes each live layer where it sits relative to the pose offset', () => {
+    const { scene, draws, textures } = createScene();
+    const layers = [image(-20, -90, 40, 70), image(-12, -110, 30, 30), image(4, -60, 10, 10, false)];
+
+    const pose = FigureCache.getInstance().bake(scene, 'hd-180-1', 'pose', layers as unknown as Phaser.GameObjects.Image[])!;
+
+    expect(pose).not.toBeNull();
+    expect(draws.map(draw => draw.image)).toEqual(layers.slice(0, 2));
+
+    for (const draw of draws) {
+      expect(draw.x + pose.offsetX).toBe(draw.image.x);
+      expect(draw.y + pose.offsetY).toBe(draw.image.y);
+    }
+
+    expect(textures[0]).toMatchObject({ key: pose.textureKey, width: 40, height: 90 });
+  });
+
+  it('reuses baked poses per figure and pose key', () => {
+    const { scene } = createScene();
+    const cache = FigureCache.getInstance();
+
+    const pose = cache.bake(scene, 'hd-180-1', 'pose', [image(0, 0, 10, 10)] as unknown as Phaser.GameObjects.Image[]);
+
+    expect(cache.getPose('hd-180-1', 'pose')).toBe(pose);
+    expect(cache.getPose('hd-180-1', 'other')).toBeNull();
+  });
+
+  it('skips baking when no layer is visible', () => {
+    const { scene, textures } = createScene();
+
+    expect(FigureCache.getInstance().bake(scene, 'hd-180-1', 'pose', [image(0, 0, 10, 10, false)] as unknown as Phaser.GameObjects.Image[])).toBeNull();
+    expect(textures).toHaveLength(0);
+  });
+});
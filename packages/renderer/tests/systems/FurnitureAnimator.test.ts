@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FurnitureAnimationData } from '../../src/data/types/FurnitureData';
+import { FurnitureAnimator } from '../../src/systems/FurnitureAnimator';
+import { RoomClock } from '../../src/engine/RoomClock';
+
+const animations: Record<string, FurnitureAnimationData> = {
+  0: { layers: { 0: { frameSequence: [0] } } },
+  1: { layers: { 0: { frameSequence: [1, 2] } } },
+  2: { transitionTo: 1, transitionFrom: 0, layers: { 0: { frameSequence: [3, 4] } } }
+};
+
+describe('FurnitureAnimator', () => {
+  it('counts states without their transitions', () => {
+    expect(new FurnitureAnimator(animations).getStateCount()).toBe(2);
+  });
+
+  it('plays the transition before settling on the new state', () => {
+    const animator = new FurnitureAnimator(animations);
+    const interval = RoomClock.getTickInterval();
+
+    animator.setState(1);
+    expect(animator.getLayerFrames(1)[0].id).toBe(3);
+
+    animator.update(interval);
+    expect(animator.getLayerFrames(1)[0].id).toBe(4);
+
+    animator.update(interval);
+    expect(animator.getState()).toBe(1);
+    expect(animator.getLayerFrames(1)[0].id).toBe(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { Tile } from '../../src/data/types/RoomData';
+import { FurnitureTileMap } from '../../src/systems/FurnitureTileMap';
+import { PathFinder } from '../../src/systems/PathFinder';
+
+const createPathFinder = (pattern: string[], options = {}): PathFinder => {
+  const tiles: Tile[][] = pattern.map((row, y) => [...row].map((char, x) => ({
+    x,
+    y,
+    height: char === 'x' ? 0 : parseInt(char, 36),
+    isBlocked: false,
+    walkable: char !== 'x'
+  })));
+
+  return new PathFinder(tiles, pattern[0].length - 1, pattern.length - 1, undefined, options);
+};
+
+const hasDiagonalStep = (start: { x: number; y: number }, path: Array<{ x: number; y: number }>): boolean =>
+  path.some((step, index) => {
+    const previous = index === 0 ? start : path[index - 1];
+    return step.x !== previous.x && step.y !== previous.y;
+  });
+
+describe('PathFinder', () => {
+  it('walks diagonally by default', () => {
+    const pathFinder = createPathFinder([
+      '000',
+      '000',
+      '000'
+    ]);
+
+    const path = pathFinder.findPath(0, 0, 2, 2)!;
+
+    expect(path.map(({ x, y }) => [x, y])).toEqual([[1, 1], [2, 2]]);
+  });
+
+  it('only moves orthogonally when diagonals are disabled', () => {
+    const pathFinder = createPathFinder([
+      '000',
+      '000',
+      '000'
+    ], { allowDiagonal: false });
+
+    const path = pathFinder.findPath(0, 0, 2, 2)!;
+
+    expect(path).toHaveLength(4);
+    expect(hasDiagonalStep({ x: 0, y: 0 }, path)).toBe(false);
+  });
+
+  it('applies per-call options over the configured ones', () => {
+    const pathFinder = createPathFinder([
+      '000',
+      '000',
+      '000'
+    ]);
+
+    expect(pathFinder.findPath(0, 0, 2, 2, { allowDiagonal: false })).toHaveLength(4);
+    expect(pathFinder.getOptions().allowDiagonal).toBe(true);
+  });
+
+  it('respects the corner cutting mode around missing tiles', () => {
+    const pattern = [
+      '0x',
+      '00'
+    ];
+
+    expect(createPathFinder(pattern, { cornerCutting: 'never' }).findPath(1, 1, 0, 0)).toHaveLength(2);
+    expect(createPathFinder(pattern, { cornerCutting: 'partial' }).findPath(1, 1, 0, 0)).toHaveLength(1);
+    expect(createPathFinder(pattern, { cornerCutting: 'always' }).findPath(1, 1, 0, 0)).toHaveLength(1);
+  });
+
+  it('limits steps by the configured step height', () => {
+    const pattern = [
+      '02'
+    ];
+
+    expect(createPathFinder(pattern).findPath(0, 0, 1, 0)).toBeNull();
+    expect(createPathFinder(pattern, { maxStepUp: 2 }).findPath(0, 0, 1, 0)).toHaveLength(1);
+    expect(createPathFinder(pattern, { maxStepUp: 2 }).findPath(1, 0, 0, 0)).toBeNull();
+    expect(createPathFinder(pattern, { maxStepUp: 2, maxStepDown: 2 }).findPath(1, 0, 0, 0)).toHaveLength(1);
+  });
+
+  it('prefers climbing stairs over stepping diagonally between heights', () => {
+    const pathFinder = createPathFinder([
+      '01',
+      '01'
+    ]);
+
+    const path = pathFinder.findPath(0, 1, 1, 0)!;
+
+    expect(path).toHaveLength(2);
+    expect(hasDiagonalStep({ x: 0, y: 1 }, path)).toBe(false);
+    expect(path[1].z).toBe(1);
+  });
+
+  it('gives up once the node budget is spent', () => {
+    const pathFinder = createPathFinder([
+      '00000',
+      '00000',
+      '00000'
+    ]);
+
+    expect(pathFinder.findPath(0, 0, 4, 2, { maxNodes: 2 })).toBeNull();
+    expect(pathFinder.findPath(0, 0, 4, 2)).not.toBeNull();
+  });
+
+  it('routes around occupied tiles and rejects occupied destinations', () => {
+    const pathFinder = createPathFinder([
+      '000',
+      '000',
+      '000'
+    ]);
+    const isOccupied = (x: number, y: number) => x === 1 && y === 1;
+
+    const path = pathFinder.findPath(0, 0, 2, 2, undefined, isOccupied)!;
+
+    expect(path.some(({ x, y }) => isOccupied(x, y))).toBe(false);
+    expect(pathFinder.findPath(0, 0, 1, 1, undefined, isOccupied)).toBeNull();
+  });
+
+  it('limits steps by the height of walkable furniture stacks', () => {
+    const stacks = new Map([['1,0', 3], ['2,0', 4]]);
+    const tileMap = {
+      getWalkHeight: (x: number, y: number, floorHeight: number) => stacks.get(`${x},${y}`) ?? floorHeight,
+      isBlocked: () => false,
+      canPassThrough: () => true
+    } as unknown as FurnitureTileMap;
+
+    const pathFinder = createPathFinder([
+      '000'
+    ]);
+
+    pathFinder.setFurnitureTileMap(tileMap);
+
+    expect(pathFinder.findPath(0, 0, 1, 0)).toBeNull();
+    expect(pathFinder.findPath(0, 0, 1, 0, { maxStepUp: 3 })!.map(({ z }) => z)).toEqual([3]);
+    expect(pathFinder.findPath(1, 0, 2, 0)!.map(({ z }) => z)).toEqual([4]);
+  });
+
+  it('returns unit directions clockwise from north', () => {
+    const neighbours = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+    expect(neighbours.map(([dx, dy]) => PathFinder.getDirection(5, 5, 5 + dx, 5 + dy))).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { WallPlacement } from '../../src/systems/WallPlacement';
+
+describe('WallPlacement', () => {
+  it('parses west and north wall locations', () => {
+    expect(WallPlacement.parseLocation(':w=0,3 l=12,40 l')).toEqual({
+      x: 0,
+      y: 3,
+      offsetX: 12,
+      offsetY: 40,
+      side: 'west'
+    });
+
+    expect(WallPlacement.parseLocation('  :w=4,-1 l=-2,7 r ')).toEqual({
+      x: 4,
+      y: -1,
+      offsetX: -2,
+      offsetY: 7,
+      side: 'north'
+    });
+  });
+
+  it('rejects malformed locations', () => {
+    expect(WallPlacement.parseLocation('')).toBeNull();
+    expect(WallPlacement.parseLocation(':w=0,3 l=12,40')).toBeNull();
+    expect(WallPlacement.parseLocation(':w=0,3 l=12,40 x')).toBeNull();
+    expect(WallPlacement.parseLocation('w=0,3 l=12,40 l')).toBeNull();
+  });
+
+  it('formats locations that parse back to the same value', () => {
+    const location = { x: 7, y: 0, offsetX: 16, offsetY: 52, side: 'north' as const };
+    const formatted = WallPlacement.formatLocation(location);
+
+    expect(formatted).toBe(':w=7,0 l=16,52 r');
+    expect(WallPlacement.parseLocation(formatted)).toEqual(location);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { BinaryHeap } from '../../src/utils/BinaryHeap';
+
+describe('BinaryHeap', () => {
+  it('pops items in comparator order', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+
+    [5, 1, 8, 3, 9, 2].forEach(value => heap.push(value));
+
+    const popped: number[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+
+    expect(popped).toEqual([1, 2, 3, 5, 8, 9]);
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  it('reorders an item after its priority changes', () => {
+    const items = [{ f: 4 }, { f: 6 }, { f: 9 }];
+    const heap = new BinaryHeap<{ f: number }>((a, b) => a.f - b.f);
+
+    items.forEach(item => heap.push(item));
+
+    items[2].f = 1;
+    heap.update(items[2]);
+
+    expect(heap.peek()).toBe(items[2]);
+    expect(heap.has(items[2])).toBe(true);
+    expect(heap.pop()).toBe(items[2]);
+    expect(heap.has(items[2])).toBe(false);
+  });
+});